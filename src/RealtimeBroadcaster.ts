@@ -0,0 +1,107 @@
+import Backoff from './lib/backoff'
+import type { BackoffOptions } from './lib/backoff'
+import { broadcastMessages } from './lib/broadcast'
+import type { RealtimeBroadcastMessage } from './lib/broadcast'
+import { DEFAULT_TIMEOUT } from './lib/constants'
+import { RealtimeAuthError } from './lib/errors'
+import { httpEndpointURL } from './lib/transformers'
+import type { RealtimeChannelSendResult } from './RealtimeChannel'
+
+type Fetch = typeof fetch
+
+export type RealtimeBroadcasterOptions = {
+  params: { apikey: string; [key: string]: any }
+  accessToken?: () => Promise<string | null>
+  fetch?: Fetch
+  timeout?: number
+  retry?: BackoffOptions | false
+}
+
+export type RealtimeBroadcastSendOptions = {
+  /** Reused by every attempt of the request. Defaults to a random key. */
+  idempotencyKey?: string
+  timeout?: number
+}
+
+/**
+ * Publishes broadcasts through the REST broadcast endpoint, without ever opening a socket.
+ *
+ * Meant for backend services that only publish. Each request carries an `Idempotency-Key` header,
+ * so transient failures are retried without risking duplicates.
+ *
+ * @example
+ *    const broadcaster = new RealtimeBroadcaster('https://project.supabase.co/realtime/v1', {
+ *      params: { apikey: SUPABASE_KEY },
+ *      accessToken: async () => SERVICE_ROLE_KEY,
+ *    })
+ *    await broadcaster.send({ topic: 'room:1', event: 'update', payload: { n: 1 }, private: true })
+ */
+export default class RealtimeBroadcaster {
+  apiKey: string
+  httpEndpoint: string
+  timeout: number
+  fetch: Fetch
+  accessToken: (() => Promise<string | null>) | null
+  retry: BackoffOptions | null
+
+  /**
+   * @param endPoint The Realtime endpoint, either its WebSocket or HTTP URL, ie, "https://example.com/realtime/v1".
+   * @param options.params The API key as `apikey`.
+   * @param options.accessToken Returns the token authorizing requests, called once per `send()` or `sendBatch()`, whose retries reuse its token.
+   * @param options.fetch The fetch implementation. Defaults to the global fetch.
+   * @param options.timeout The timeout of a request in milliseconds.
+   * @param options.retry The backoff policy retrying timeouts, network errors, 408, 425, 429 and 5xx replies, honoring `Retry-After` up to `max`, or `false` to not retry. Defaults to 3 attempts in total.
+   */
+  constructor(endPoint: string, options: RealtimeBroadcasterOptions) {
+    if (!options?.params?.apikey) {
+      throw new RealtimeAuthError('API key is required to broadcast')
+    }
+    this.apiKey = options.params.apikey
+    this.httpEndpoint = httpEndpointURL(endPoint)
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT
+    this.fetch = options.fetch ?? ((...args) => fetch(...args))
+    this.accessToken = options.accessToken ?? null
+    this.retry =
+      options.retry === false ? null : { maxAttempts: 3, ...options.retry }
+  }
+
+  /**
+   * Broadcasts a message to a public or private topic.
+   */
+  async send(
+    message: RealtimeBroadcastMessage,
+    opts: RealtimeBroadcastSendOptions = {}
+  ): Promise<RealtimeChannelSendResult> {
+    const [result] = await this.sendBatch([message], opts)
+    return result
+  }
+
+  /**
+   * Broadcasts messages to any number of topics with a single request, resolving with one result per message.
+   */
+  async sendBatch(
+    messages: RealtimeBroadcastMessage[],
+    opts: RealtimeBroadcastSendOptions = {}
+  ): Promise<RealtimeChannelSendResult[]> {
+    const token = this.accessToken ? await this.accessToken() : null
+
+    return broadcastMessages(messages, {
+      fetch: this.fetch,
+      url: this.httpEndpoint,
+      headers: {
+        Authorization: token ? `Bearer ${token}` : '',
+        apikey: this.apiKey,
+        'Idempotency-Key': opts.idempotencyKey ?? randomKey(),
+      },
+      timeout: opts.timeout ?? this.timeout,
+      backoff: this.retry ? new Backoff(this.retry) : undefined,
+    })
+  }
+}
+
+function randomKey(): string {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+    return crypto.randomUUID()
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+}
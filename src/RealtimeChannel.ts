@@ -1,11 +1,23 @@
 import {
   CHANNEL_EVENTS,
   CHANNEL_STATES,
+  DEFAULT_COMPRESSION_THRESHOLD,
   MAX_PUSH_BUFFER_SIZE,
 } from './lib/constants'
+import { compress } from './lib/deflate'
 import Push from './lib/push'
 import type RealtimeClient from './RealtimeClient'
 import Timer from './lib/timer'
+import EventStream from './lib/event-stream'
+import type { EventStreamOptions } from './lib/event-stream'
+import RateLimiter from './lib/rate-limiter'
+import type { RateLimitOptions } from './lib/rate-limiter'
+import {
+  RealtimeBindingMismatchError,
+  RealtimeError,
+  RealtimeTimeoutError,
+  errorFromReply,
+} from './lib/errors'
 import RealtimePresence, {
   REALTIME_PRESENCE_LISTEN_EVENTS,
 } from './RealtimePresence'
@@ -15,15 +27,19 @@ import type {
   RealtimePresenceState,
 } from './RealtimePresence'
 import * as Transformers from './lib/transformers'
-import { httpEndpointURL } from './lib/transformers'
 
 export type RealtimeChannelOptions = {
   config: {
     /**
      * self option enables client to receive message it broadcast
      * ack option instructs server to acknowledge that broadcast message was received
+     * compression option deflates JSON payloads of at least `threshold` bytes (defaults to 1024) sent over the socket, ignored unless the client uses the default codec with `broadcastEncoding: 'binary'`
      */
-    broadcast?: { self?: boolean; ack?: boolean }
+    broadcast?: {
+      self?: boolean
+      ack?: boolean
+      compression?: { enabled?: boolean; threshold?: number }
+    }
     /**
      * key option is used to track presence payload across clients
      */
@@ -32,6 +48,10 @@ export type RealtimeChannelOptions = {
      * defines if the channel is private or not and if RLS policies will be used to check data
      */
     private?: boolean
+    /**
+     * rateLimit option throttles the messages sent into the channel, on top of the client's own limit
+     */
+    rateLimit?: RateLimitOptions
   }
 }
 
@@ -91,6 +111,27 @@ export type RealtimePostgresChangesFilter<
 
 export type RealtimeChannelSendResponse = 'ok' | 'timed out' | 'error'
 
+export type RealtimeChannelSendResult = {
+  status: RealtimeChannelSendResponse
+  /** The server's reply, or the body of a failed HTTP request. */
+  response: any
+  via: 'ws' | 'http'
+  latencyMs: number
+  /** The ref of the WebSocket push, `null` over HTTP. */
+  ref: string | null
+  httpStatus?: number
+  /** The number of HTTP requests made, including retries. */
+  attempts?: number
+  /** `true` when the message was stored in the client's outbox, to be sent once the channel rejoins. */
+  queued?: boolean
+  error?: RealtimeError
+}
+
+export type RealtimeChannelStreamOptions = EventStreamOptions & {
+  type: `${REALTIME_LISTEN_TYPES}`
+  filter: { [key: string]: any }
+}
+
 export enum REALTIME_POSTGRES_CHANGES_LISTEN_EVENT {
   ALL = '*',
   INSERT = 'INSERT',
@@ -144,9 +185,15 @@ export default class RealtimeChannel {
   rejoinTimer: Timer
   pushBuffer: Push[] = []
   presence: RealtimePresence
-  broadcastEndpointURL: string
   subTopic: string
   private: boolean
+  rateLimiter: RateLimiter | null
+  private _streams: Set<EventStream<any>> = new Set()
+  private _postgresChangesSyncScheduled: boolean = false
+  private _outboxReplay: Promise<void> = Promise.resolve()
+  private _compressions: Promise<unknown> = Promise.resolve()
+  /** The optional protocol messages the server accepts, from its last join reply. */
+  private _serverCapabilities: string[] = []
 
   constructor(
     /** Topic name can be any string. */
@@ -170,21 +217,23 @@ export default class RealtimeChannel {
       this.params,
       this.timeout
     )
-    this.rejoinTimer = new Timer(
-      () => this._rejoinUntilConnected(),
-      this.socket.reconnectAfterMs
+    this.rejoinTimer = this.socket._createRetryTimer(() =>
+      this._rejoinUntilConnected()
     )
-    this.joinPush.receive('ok', () => {
+    this.joinPush.receive('ok', (response?: { capabilities?: string[] }) => {
       this.state = CHANNEL_STATES.joined
+      this._serverCapabilities = response?.capabilities ?? []
       this.rejoinTimer.reset()
       this.pushBuffer.forEach((pushEvent: Push) => pushEvent.send())
       this.pushBuffer = []
+      this._replayOutbox()
     })
     this._onClose(() => {
       this.rejoinTimer.reset()
       this.socket.log('channel', `close ${this.topic} ${this._joinRef()}`)
       this.state = CHANNEL_STATES.closed
       this.socket._remove(this)
+      this._endStreams()
     })
     this._onError((reason: string) => {
       if (this._isLeaving() || this._isClosed()) {
@@ -192,7 +241,7 @@ export default class RealtimeChannel {
       }
       this.socket.log('channel', `error ${this.topic}`, reason)
       this.state = CHANNEL_STATES.errored
-      this.rejoinTimer.scheduleTimeout()
+      this._scheduleRejoin()
     })
     this.joinPush.receive('timeout', () => {
       if (!this._isJoining()) {
@@ -200,7 +249,7 @@ export default class RealtimeChannel {
       }
       this.socket.log('channel', `timeout ${this.topic}`, this.joinPush.timeout)
       this.state = CHANNEL_STATES.errored
-      this.rejoinTimer.scheduleTimeout()
+      this._scheduleRejoin()
     })
 
     this.joinPush.receive('error', (reason: any) => {
@@ -209,7 +258,7 @@ export default class RealtimeChannel {
       }
       this.socket.log('channel', `error ${this.topic}`, reason)
       this.state = CHANNEL_STATES.errored
-      this.rejoinTimer.scheduleTimeout()
+      this._scheduleRejoin()
     })
     this._on(CHANNEL_EVENTS.reply, {}, (payload: any, ref: string) => {
       this._trigger(this._replyEventName(ref), payload)
@@ -217,8 +266,10 @@ export default class RealtimeChannel {
 
     this.presence = new RealtimePresence(this)
 
-    this.broadcastEndpointURL = httpEndpointURL(this.socket.endPoint)
     this.private = this.params.config.private || false
+    this.rateLimiter = this.params.config.rateLimit
+      ? new RateLimiter(this.params.config.rateLimit)
+      : null
   }
 
   /** Subscribe registers your client with the server */
@@ -237,13 +288,16 @@ export default class RealtimeChannel {
       const postgres_changes =
         this.bindings.postgres_changes?.map((r) => r.filter) ?? []
 
+      // compression is applied by the client and is not part of the server config
+      const { compression: _compression, ...broadcastConfig } = broadcast ?? {}
+
       const presence_enabled =
         (!!this.bindings[REALTIME_LISTEN_TYPES.PRESENCE] &&
           this.bindings[REALTIME_LISTEN_TYPES.PRESENCE].length > 0) ||
         this.params.config.presence?.enabled === true
       const accessTokenPayload: { access_token?: string } = {}
       const config = {
-        broadcast,
+        broadcast: broadcast && broadcastConfig,
         presence: { ...presence, enabled: presence_enabled },
         postgres_changes,
         private: isPrivate,
@@ -253,8 +307,15 @@ export default class RealtimeChannel {
         accessTokenPayload.access_token = this.socket.accessTokenValue
       }
 
-      this._onError((e: Error) =>
-        callback?.(REALTIME_SUBSCRIBE_STATES.CHANNEL_ERROR, e)
+      this._onError((reason: any) =>
+        callback?.(
+          REALTIME_SUBSCRIBE_STATES.CHANNEL_ERROR,
+          reason instanceof RealtimeError
+            ? reason
+            : new RealtimeError(`channel ${this.topic} errored`, {
+                reply: reason,
+              })
+        )
       )
 
       this._onClose(() => callback?.(REALTIME_SUBSCRIBE_STATES.CLOSED))
@@ -271,45 +332,27 @@ export default class RealtimeChannel {
             callback?.(REALTIME_SUBSCRIBE_STATES.SUBSCRIBED)
             return
           } else {
-            const clientPostgresBindings = this.bindings.postgres_changes
-            const bindingsLen = clientPostgresBindings?.length ?? 0
-            const newPostgresBindings = []
-
-            for (let i = 0; i < bindingsLen; i++) {
-              const clientPostgresBinding = clientPostgresBindings[i]
-              const {
-                filter: { event, schema, table, filter },
-              } = clientPostgresBinding
-              const serverPostgresFilter =
-                postgres_changes && postgres_changes[i]
-
-              if (
-                serverPostgresFilter &&
-                serverPostgresFilter.event === event &&
-                serverPostgresFilter.schema === schema &&
-                serverPostgresFilter.table === table &&
-                serverPostgresFilter.filter === filter
-              ) {
-                newPostgresBindings.push({
-                  ...clientPostgresBinding,
-                  id: serverPostgresFilter.id,
-                })
-              } else {
-                this.unsubscribe()
-                this.state = CHANNEL_STATES.errored
-
-                callback?.(
-                  REALTIME_SUBSCRIBE_STATES.CHANNEL_ERROR,
-                  new Error(
-                    'mismatch between server and client bindings for postgres changes'
-                  )
+            const clientPostgresBindings = this.bindings.postgres_changes ?? []
+
+            if (
+              !this._reconcilePostgresBindings(
+                clientPostgresBindings,
+                postgres_changes
+              )
+            ) {
+              // reported before leaving, which reports CLOSED
+              callback?.(
+                REALTIME_SUBSCRIBE_STATES.CHANNEL_ERROR,
+                new RealtimeBindingMismatchError(
+                  'mismatch between server and client bindings for postgres changes',
+                  { reply: { postgres_changes } }
                 )
-                return
-              }
+              )
+              this.unsubscribe()
+              this.state = CHANNEL_STATES.errored
+              return
             }
 
-            this.bindings.postgres_changes = newPostgresBindings
-
             callback && callback(REALTIME_SUBSCRIBE_STATES.SUBSCRIBED)
             return
           }
@@ -318,20 +361,92 @@ export default class RealtimeChannel {
           this.state = CHANNEL_STATES.errored
           callback?.(
             REALTIME_SUBSCRIBE_STATES.CHANNEL_ERROR,
-            new Error(
-              JSON.stringify(Object.values(error).join(', ') || 'error')
-            )
+            errorFromReply(error)
           )
           return
         })
         .receive('timeout', () => {
-          callback?.(REALTIME_SUBSCRIBE_STATES.TIMED_OUT)
+          callback?.(
+            REALTIME_SUBSCRIBE_STATES.TIMED_OUT,
+            new RealtimeTimeoutError(
+              `timed out subscribing to ${this.topic} after ${this.joinPush.timeout}ms`
+            )
+          )
           return
         })
     }
     return this
   }
 
+  /**
+   * Subscribes to the channel, resolving once it is joined and its postgres changes bindings are confirmed by the server.
+   *
+   * Rejects with the `RealtimeError` reported with `CHANNEL_ERROR` or `TIMED_OUT`, or one with the `closed` code when the channel closes first.
+   * The channel keeps retrying to join after an error or a timeout; call `unsubscribe()` to give up.
+   * Aborting the signal unsubscribes and rejects with its reason.
+   *
+   * @param options.timeout The join timeout in milliseconds. Defaults to the client timeout.
+   * @param options.signal Aborts the subscription.
+   *
+   * @example
+   *    await channel.subscribeAsync({ timeout: 5000 })
+   */
+  subscribeAsync(
+    options: { timeout?: number; signal?: AbortSignal } = {}
+  ): Promise<RealtimeChannel> {
+    const { timeout = this.timeout, signal } = options
+    const abortReason = () =>
+      signal!.reason ??
+      Object.assign(new Error('subscribe aborted'), { name: 'AbortError' })
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        return reject(abortReason())
+      }
+      if (this._isJoined()) {
+        return resolve(this)
+      }
+      if (!this._isClosed()) {
+        return reject(
+          new RealtimeError(
+            `cannot subscribe to ${this.topic} while ${this.state}`
+          )
+        )
+      }
+
+      let settled = false
+      const onAbort = () => {
+        settle()
+        this.unsubscribe()
+        reject(abortReason())
+      }
+      const settle = () => {
+        settled = true
+        signal?.removeEventListener('abort', onAbort)
+      }
+      signal?.addEventListener('abort', onAbort)
+
+      this.subscribe((status, err) => {
+        if (settled) {
+          return
+        }
+        settle()
+        switch (status) {
+          case REALTIME_SUBSCRIBE_STATES.SUBSCRIBED:
+            return resolve(this)
+          case REALTIME_SUBSCRIBE_STATES.CLOSED:
+            return reject(
+              new RealtimeError(`${this.topic} closed before subscribing`, {
+                code: 'closed',
+              })
+            )
+          default:
+            return reject(err)
+        }
+      }, timeout)
+    })
+  }
+
   presenceState<
     T extends { [key: string]: any } = {}
   >(): RealtimePresenceState<T> {
@@ -342,6 +457,9 @@ export default class RealtimeChannel {
     payload: { [key: string]: any },
     opts: { [key: string]: any } = {}
   ): Promise<RealtimeChannelSendResponse> {
+    if (this.socket.outbox && this._canPush()) {
+      await this._discardQueuedTrack()
+    }
     return await this.send(
       {
         type: 'presence',
@@ -355,6 +473,9 @@ export default class RealtimeChannel {
   async untrack(
     opts: { [key: string]: any } = {}
   ): Promise<RealtimeChannelSendResponse> {
+    if (this.socket.outbox) {
+      await this._discardQueuedTrack()
+    }
     return await this.send(
       {
         type: 'presence',
@@ -436,17 +557,97 @@ export default class RealtimeChannel {
     filter: { event: string; [key: string]: string },
     callback: (payload: any) => void
   ): RealtimeChannel {
-    if (
-      this.state === CHANNEL_STATES.joined &&
-      type === REALTIME_LISTEN_TYPES.PRESENCE
-    ) {
-      this.socket.log(
-        'channel',
-        `resubscribe to ${this.topic} due to change in presence callbacks on joined channel`
+    return this._addListener(type, filter, callback)
+  }
+
+  /**
+   * Creates an event handler like `on()`, returning a function that removes that handler.
+   *
+   * Removing the handler only rejoins a joined channel for postgres changes, when the server cannot update its
+   * filters in place; calling the returned function more than once has no effect.
+   *
+   * @param type One of "broadcast", "presence", "postgres_changes" or "system".
+   * @param filter Custom object specific to the Realtime feature detailing which payloads to receive.
+   * @param callback Function to be invoked when event handler is triggered.
+   *
+   * @example
+   *    useEffect(() => channel.listen('broadcast', { event: 'cursor' }, onCursor), [channel])
+   */
+  listen<T = any>(
+    type: `${REALTIME_LISTEN_TYPES}`,
+    filter: { [key: string]: any },
+    callback: (payload: T) => void
+  ): () => void {
+    this._addListener(type, filter, callback)
+    const bindings = this.bindings[type.toLocaleLowerCase()]
+    const binding = bindings[bindings.length - 1]
+
+    // postgres changes bindings are copied once joined, keeping the filter and callback
+    let disposed = false
+    return () => {
+      if (disposed) {
+        return
+      }
+      disposed = true
+      const current = this.bindings[binding.type] ?? []
+      const index = current.findIndex(
+        (bind) =>
+          bind.filter === binding.filter && bind.callback === binding.callback
       )
-      this.unsubscribe().then(() => this.subscribe())
+      if (index !== -1) {
+        current.splice(index, 1)
+        if (binding.type === REALTIME_LISTEN_TYPES.POSTGRES_CHANGES) {
+          this._schedulePostgresChangesSync()
+        }
+      }
     }
-    return this._on(type, filter, callback)
+  }
+
+  /**
+   * Removes the event handlers matching the type and filter, as passed to `on()`, or only those of the callback when given.
+   *
+   * Removing handlers only rejoins a joined channel for postgres changes, when the server cannot update its filters in place.
+   *
+   * @param type One of "broadcast", "presence", "postgres_changes" or "system".
+   * @param filter The filter the handlers were created with.
+   * @param callback The callback of the handlers to remove.
+   */
+  off(
+    type: `${REALTIME_LISTEN_TYPES}`,
+    filter: { [key: string]: any },
+    callback?: Function
+  ): RealtimeChannel {
+    return this._off(type, filter, callback)
+  }
+
+  /**
+   * Returns an async iterator over the payloads of the events matching the type and filter, as passed to `on()`.
+   *
+   * The iterator completes when the channel is unsubscribed or closed, or when the loop consuming it exits.
+   * Presence streams must be opened before subscribing.
+   *
+   * @param options.type One of "broadcast", "presence", or "postgres_changes".
+   * @param options.filter Custom object specific to the Realtime feature detailing which payloads to receive.
+   * @param options.bufferSize The number of unread payloads kept. Defaults to 100.
+   * @param options.overflow What to do once the buffer is full: 'drop-oldest', 'drop-newest' or 'error'. Defaults to 'drop-oldest'.
+   *
+   * @example
+   *    for await (const message of channel.stream({ type: 'broadcast', filter: { event: 'cursor' } })) {
+   *      console.log(message.payload)
+   *    }
+   */
+  stream<T = any>(
+    options: RealtimeChannelStreamOptions
+  ): AsyncIterableIterator<T> {
+    const { type, filter, ...streamOptions } = options
+    const callback = (payload: T) => stream.push(payload)
+    const stream: EventStream<T> = new EventStream<T>(streamOptions, () => {
+      this._streams.delete(stream)
+      this._off(type, filter, callback)
+    })
+    this._streams.add(stream)
+    this._on(type, filter, callback)
+    return stream
   }
   /**
    * Sends a message into the channel.
@@ -454,7 +655,7 @@ export default class RealtimeChannel {
    * @param args Arguments to send to channel
    * @param args.type The type of event to send
    * @param args.event The name of the event being sent
-   * @param args.payload Payload to be sent
+   * @param args.payload Payload to be sent. Broadcasts may pass an ArrayBuffer or Uint8Array to send raw bytes over a joined channel.
    * @param opts Options to be used during the send process
    */
   async send(
@@ -466,59 +667,123 @@ export default class RealtimeChannel {
     },
     opts: { [key: string]: any } = {}
   ): Promise<RealtimeChannelSendResponse> {
-    if (!this._canPush() && args.type === 'broadcast') {
-      const { event, payload: endpoint_payload } = args
-      const authorization = this.socket.accessTokenValue
-        ? `Bearer ${this.socket.accessTokenValue}`
-        : ''
-      const options = {
-        method: 'POST',
-        headers: {
-          Authorization: authorization,
-          apikey: this.socket.apiKey ? this.socket.apiKey : '',
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          messages: [
-            {
-              topic: this.subTopic,
-              event,
-              payload: endpoint_payload,
-              private: this.private,
-            },
-          ],
-        }),
-      }
+    const { status } = await this.sendDetailed(args, opts)
+    return status
+  }
 
-      try {
-        const response = await this._fetchWithTimeout(
-          this.broadcastEndpointURL,
-          options,
-          opts.timeout ?? this.timeout
-        )
+  /**
+   * Sends a message into the channel like `send()`, resolving with the server's reply and how it was sent.
+   *
+   * Broadcasts are only acknowledged over WebSocket when the channel is configured with `broadcast: { ack: true }`.
+   * When the client has an outbox, broadcasts and presence tracks sent while the subscribed channel is disconnected
+   * are stored in it and resolve with `queued: true`.
+   *
+   * @example
+   *    const result = await channel.sendDetailed({ type: 'broadcast', event: 'ping', payload: {} })
+   *    if (result.status === 'error') console.warn(result.via, result.httpStatus, result.response)
+   */
+  async sendDetailed(
+    args: {
+      type: 'broadcast' | 'presence' | 'postgres_changes'
+      event: string
+      payload?: any
+      [key: string]: any
+    },
+    opts: { [key: string]: any } = {}
+  ): Promise<RealtimeChannelSendResult> {
+    if (this.socket.outbox && this._shouldQueue(args)) {
+      return this._queue(args)
+    }
+    return this._deliver(args, opts)
+  }
 
-        await response.body?.cancel()
-        return response.ok ? 'ok' : 'error'
-      } catch (error: any) {
-        if (error.name === 'AbortError') {
-          return 'timed out'
-        } else {
-          return 'error'
+  /**
+   * Sends a message like `sendDetailed()`, without storing it in the outbox.
+   *
+   * @internal
+   */
+  private async _deliver(
+    args: {
+      type: 'broadcast' | 'presence' | 'postgres_changes'
+      event: string
+      payload?: any
+      [key: string]: any
+    },
+    opts: { [key: string]: any } = {}
+  ): Promise<RealtimeChannelSendResult> {
+    if (
+      !this._sendsOverHttp(args) &&
+      !this._canSendBinary() &&
+      this.socket.serializer.isBinaryPayload(args.payload)
+    ) {
+      return {
+        status: 'error',
+        response: null,
+        via: 'ws',
+        latencyMs: 0,
+        ref: null,
+        error: new RealtimeError(
+          `binary payloads require broadcastEncoding 'binary', ${args.event} was not sent`,
+          { code: 'unsupported' }
+        ),
+      }
+    }
+    if (this.rateLimiter || this.socket.rateLimiter) {
+      const startedAt = Date.now()
+      if (!(await this._acquireSendSlot(`${args.type}:${args.event}`))) {
+        return {
+          status: 'error',
+          response: null,
+          via: this._sendsOverHttp(args) ? 'http' : 'ws',
+          latencyMs: Date.now() - startedAt,
+          ref: null,
+          error: new RealtimeError(
+            `rate limit exceeded, ${args.event} was not sent`,
+            { code: 'rate_limited' }
+          ),
         }
       }
-    } else {
-      return new Promise((resolve) => {
-        const push = this._push(args.type, args, opts.timeout || this.timeout)
+    }
 
-        if (args.type === 'broadcast' && !this.params?.config?.broadcast?.ack) {
-          resolve('ok')
-        }
+    if (this._sendsOverHttp(args)) {
+      return this._httpSend(args, opts.timeout ?? this.timeout)
+    }
 
-        push.receive('ok', () => resolve('ok'))
-        push.receive('error', () => resolve('error'))
-        push.receive('timeout', () => resolve('timed out'))
-      })
+    if (this._shouldCompress(args)) {
+      // compressing takes a while, so each broadcast waits for the previous ones to keep their order
+      const uncompressed = args
+      const compressed = this._compressions.then(() =>
+        this._compressBroadcast(uncompressed)
+      )
+      this._compressions = compressed.catch(() => {})
+      args = await compressed
     }
+
+    const startedAt = Date.now()
+    return new Promise((resolve) => {
+      const push = this._push(args.type, args, opts.timeout || this.timeout)
+      const result = (
+        status: RealtimeChannelSendResponse,
+        response: any = null
+      ): RealtimeChannelSendResult => ({
+        status,
+        response,
+        via: 'ws',
+        latencyMs: Date.now() - startedAt,
+        ref: push.ref || null,
+        error: push.error() ?? undefined,
+      })
+
+      if (args.type === 'broadcast' && !this.params?.config?.broadcast?.ack) {
+        resolve(result('ok'))
+      }
+
+      push.receive('ok', (response: any) => resolve(result('ok', response)))
+      push.receive('error', (response: any) =>
+        resolve(result('error', response))
+      )
+      push.receive('timeout', () => resolve(result('timed out')))
+    })
   }
 
   updateJoinPayload(payload: { [key: string]: any }): void {
@@ -580,26 +845,214 @@ export default class RealtimeChannel {
     this.joinPush.destroy()
     this.state = CHANNEL_STATES.closed
     this.bindings = {}
+    this._endStreams()
+    this.rateLimiter?.clear()
+  }
+
+  /**
+   * Waits for the channel's rate limit, then the client's, resolving with `false` when either refuses the message.
+   *
+   * @internal
+   */
+  async _acquireSendSlot(key: string): Promise<boolean> {
+    return (
+      ((await this.rateLimiter?.acquire(key)) ?? true) &&
+      ((await this.socket.rateLimiter?.acquire(key)) ?? true)
+    )
+  }
+
+  /**
+   * Returns `true` for broadcasts and presence tracks sent while the subscribed channel is waiting to rejoin.
+   *
+   * @internal
+   */
+  _shouldQueue(args: { type: string; event: string; payload?: any }): boolean {
+    return (
+      this.joinedOnce &&
+      !this._canPush() &&
+      !this._isLeaving() &&
+      !this._isClosed() &&
+      ((args.type === 'broadcast' &&
+        !this.socket.serializer.isBinaryPayload(args.payload)) ||
+        (args.type === 'presence' && args.event === 'track'))
+    )
+  }
+
+  /**
+   * Stores a message in the client's outbox.
+   *
+   * @internal
+   */
+  async _queue(args: {
+    type: 'broadcast' | 'presence' | 'postgres_changes'
+    event: string
+    payload?: any
+  }): Promise<RealtimeChannelSendResult> {
+    const startedAt = Date.now()
+    const result = (
+      fields: Partial<RealtimeChannelSendResult>
+    ): RealtimeChannelSendResult => ({
+      status: 'ok',
+      response: null,
+      via: 'ws',
+      latencyMs: Date.now() - startedAt,
+      ref: null,
+      ...fields,
+    })
+
+    try {
+      await this.socket.outbox!.add({
+        topic: this.topic,
+        type: args.type as 'broadcast' | 'presence',
+        event: args.event,
+        payload: args.payload,
+      })
+      return result({ queued: true })
+    } catch (error: any) {
+      return result({
+        status: 'error',
+        error: new RealtimeError(
+          `failed to store ${args.event} in the outbox: ${
+            error?.message ?? error
+          }`,
+          { cause: error }
+        ),
+      })
+    }
+  }
+
+  /**
+   * Sends the outbox entries of the channel in order, stopping at the first one that could not be sent, which
+   * stays at the head of the outbox with the following ones until the next join. Entries the server rejects are
+   * discarded.
+   *
+   * @internal
+   */
+  _replayOutbox(): Promise<void> {
+    const outbox = this.socket.outbox
+    if (!outbox) {
+      return this._outboxReplay
+    }
+    this._outboxReplay = this._outboxReplay
+      .then(async () => {
+        for (const entry of await outbox.entries(this.topic)) {
+          if (!this._canPush()) {
+            return
+          }
+          const { type, event, payload } = entry
+          const { status, error } = await this._deliver({
+            type,
+            event,
+            payload,
+          })
+          const refused =
+            status === 'error' &&
+            this._canPush() &&
+            error?.code !== 'rate_limited'
+          if (status !== 'ok' && !refused) {
+            // this entry and the following ones stay at the head of the outbox until the next join
+            return
+          }
+          if (refused) {
+            this.socket.log('channel', `outbox discarded ${event}`, payload)
+          }
+          await outbox.remove(entry)
+        }
+      })
+      .catch((error) =>
+        this.socket.log('channel', `outbox error ${this.topic}`, error)
+      )
+    return this._outboxReplay
+  }
+
+  /**
+   * Removes the track waiting in the outbox, superseded by a newer track or an untrack.
+   *
+   * @internal
+   */
+  async _discardQueuedTrack(): Promise<void> {
+    await this.socket.outbox
+      ?.untrack(this.topic)
+      .catch((error) =>
+        this.socket.log('channel', `outbox error ${this.topic}`, error)
+      )
   }
 
   /** @internal */
+  _sendsOverHttp(args: { type: string }): boolean {
+    return !this._canPush() && args.type === 'broadcast'
+  }
 
-  async _fetchWithTimeout(
-    url: string,
-    options: { [key: string]: any },
+  /**
+   * Sends a broadcast through the REST broadcast endpoint, batched with others when the client batches broadcasts.
+   *
+   * @internal
+   */
+  async _httpSend(
+    args: { event: string; payload?: any },
     timeout: number
-  ) {
-    const controller = new AbortController()
-    const id = setTimeout(() => controller.abort(), timeout)
+  ): Promise<RealtimeChannelSendResult> {
+    const message = {
+      topic: this.subTopic,
+      event: args.event,
+      payload: args.payload,
+      private: this.private,
+    }
+    if (this.socket.broadcastBatcher) {
+      return this.socket.broadcastBatcher.enqueue(message, timeout)
+    }
+    const [result] = await this.socket.broadcastBatch([message], { timeout })
+    return result
+  }
 
-    const response = await this.socket.fetch(url, {
-      ...options,
-      signal: controller.signal,
-    })
+  /**
+   * Returns `true` if compression is enabled for the broadcasts of the channel.
+   *
+   * Only the default codec decodes compressed payloads, which it sends as binary frames, so other codecs
+   * and the default codec without `broadcastEncoding: 'binary'` send them uncompressed.
+   *
+   * @internal
+   */
+  _shouldCompress(args: { type: string }): boolean {
+    return (
+      args.type === 'broadcast' &&
+      this.params.config.broadcast?.compression?.enabled === true &&
+      this.socket.codec === this.socket.serializer &&
+      this._canSendBinary()
+    )
+  }
+
+  /**
+   * Returns `true` if raw bytes can be sent over the socket, which the default codec only does with
+   * `broadcastEncoding: 'binary'`.
+   *
+   * @internal
+   */
+  _canSendBinary(): boolean {
+    return (
+      this.socket.codec !== this.socket.serializer ||
+      this.socket.serializer.broadcastEncoding === 'binary'
+    )
+  }
 
-    clearTimeout(id)
+  /**
+   * Replaces the payload with its deflated JSON when it reaches the compression threshold and is not binary.
+   *
+   * @internal
+   */
+  async _compressBroadcast<T extends { payload?: any }>(args: T): Promise<T> {
+    if (this.socket.serializer.isBinaryPayload(args.payload)) {
+      return args
+    }
+    const threshold =
+      this.params.config.broadcast?.compression?.threshold ??
+      DEFAULT_COMPRESSION_THRESHOLD
+    const json = new TextEncoder().encode(JSON.stringify(args.payload ?? {}))
+    if (json.length < threshold) {
+      return args
+    }
 
-    return response
+    return { ...args, payload: await compress(json), compression: 'deflate' }
   }
 
   /** @internal */
@@ -609,7 +1062,10 @@ export default class RealtimeChannel {
     timeout = this.timeout
   ) {
     if (!this.joinedOnce) {
-      throw `tried to push '${event}' to '${this.topic}' before joining. Use channel.subscribe() before pushing events`
+      throw new RealtimeError(
+        `tried to push '${event}' to '${this.topic}' before joining. Use channel.subscribe() before pushing events`,
+        { code: 'closed' }
+      )
     }
     let pushEvent = new Push(this, event, payload, timeout)
     if (this._canPush()) {
@@ -672,7 +1128,10 @@ export default class RealtimeChannel {
     }
     let handledPayload = this._onMessage(typeLower, payload, ref)
     if (payload && !handledPayload) {
-      throw 'channel onMessage callbacks must return the payload, modified or unmodified'
+      throw new RealtimeError(
+        'channel onMessage callbacks must return the payload, modified or unmodified',
+        { code: 'invalid_payload' }
+      )
     }
 
     if (['insert', 'update', 'delete'].includes(typeLower)) {
@@ -755,11 +1214,51 @@ export default class RealtimeChannel {
     return this.state === CHANNEL_STATES.leaving
   }
 
+  /** @internal */
+  _isErrored(): boolean {
+    return this.state === CHANNEL_STATES.errored
+  }
+
+  /**
+   * Starts over with a full set of rejoin attempts, scheduling the first one if the channel errored.
+   *
+   * @internal
+   */
+  _resetRejoin(): void {
+    this.rejoinTimer.reset()
+    if (this._isErrored()) {
+      this._scheduleRejoin()
+    }
+  }
+
   /** @internal */
   _replyEventName(ref: string): string {
     return `chan_reply_${ref}`
   }
 
+  /**
+   * Adds a binding for `on()` and `listen()`, resubscribing a joined channel to apply presence bindings.
+   *
+   * @internal
+   */
+  _addListener(
+    type: `${REALTIME_LISTEN_TYPES}`,
+    filter: { [key: string]: any },
+    callback: Function
+  ): RealtimeChannel {
+    if (
+      this.state === CHANNEL_STATES.joined &&
+      type === REALTIME_LISTEN_TYPES.PRESENCE
+    ) {
+      this.socket.log(
+        'channel',
+        `resubscribe to ${this.topic} due to change in presence callbacks on joined channel`
+      )
+      this.unsubscribe().then(() => this.subscribe())
+    }
+    return this._on(type, filter, callback)
+  }
+
   /** @internal */
   _on(type: string, filter: { [key: string]: any }, callback: Function) {
     const typeLower = type.toLocaleLowerCase()
@@ -774,25 +1273,158 @@ export default class RealtimeChannel {
     } else {
       this.bindings[typeLower] = [binding]
     }
+    if (typeLower === REALTIME_LISTEN_TYPES.POSTGRES_CHANGES) {
+      this._schedulePostgresChangesSync()
+    }
 
     return this
   }
 
-  /** @internal */
-  _off(type: string, filter: { [key: string]: any }) {
+  /**
+   * Removes the bindings matching the type and filter, or only the one registered with the callback when given.
+   *
+   * @internal
+   */
+  _off(type: string, filter: { [key: string]: any }, callback?: Function) {
     const typeLower = type.toLocaleLowerCase()
 
     if (this.bindings[typeLower]) {
       this.bindings[typeLower] = this.bindings[typeLower].filter((bind) => {
         return !(
           bind.type?.toLocaleLowerCase() === typeLower &&
-          RealtimeChannel.isEqual(bind.filter, filter)
+          RealtimeChannel.isEqual(bind.filter, filter) &&
+          (callback === undefined || bind.callback === callback)
         )
       })
     }
+    if (typeLower === REALTIME_LISTEN_TYPES.POSTGRES_CHANGES) {
+      this._schedulePostgresChangesSync()
+    }
     return this
   }
 
+  /**
+   * Assigns the ids the server replied with to the bindings of the `requested` filters, matched in order.
+   * Returns `false` when the server's filters do not match.
+   *
+   * @internal
+   */
+  _reconcilePostgresBindings(
+    requested: RealtimeChannel['bindings'][string],
+    serverFilters: PostgresChangesFilters['postgres_changes'] | undefined
+  ): boolean {
+    const ids = new Map<object, string>()
+    for (let i = 0; i < requested.length; i++) {
+      const { event, schema, table, filter } = requested[i].filter
+      const serverFilter = serverFilters?.[i]
+      if (
+        !serverFilter ||
+        serverFilter.event !== event ||
+        serverFilter.schema !== schema ||
+        serverFilter.table !== table ||
+        serverFilter.filter !== filter
+      ) {
+        return false
+      }
+      ids.set(requested[i].filter, serverFilter.id)
+    }
+
+    // bindings added or removed while waiting for the reply are left as they are
+    this.bindings.postgres_changes = (this.bindings.postgres_changes ?? []).map(
+      (bind) =>
+        ids.has(bind.filter) ? { ...bind, id: ids.get(bind.filter) } : bind
+    )
+    return true
+  }
+
+  /**
+   * Sends the postgres changes filters of a joined channel once the current task is done,
+   * so that listeners added or removed together are sent at once.
+   *
+   * @internal
+   */
+  _schedulePostgresChangesSync(): void {
+    if (!this._isJoined() || this._postgresChangesSyncScheduled) {
+      return
+    }
+    this._postgresChangesSyncScheduled = true
+    Promise.resolve().then(() => {
+      this._postgresChangesSyncScheduled = false
+      this._syncPostgresChanges()
+    })
+  }
+
+  /**
+   * Replaces the postgres changes filters of the joined channel with those of its bindings, keeping the
+   * join payload in sync for rejoins. Listeners of unchanged filters keep receiving changes meanwhile.
+   *
+   * Updating in place relies on the `postgres_changes_update` message, which servers supporting it list in
+   * the `capabilities` of their join reply. Otherwise, or when the server refuses or does not answer the
+   * update, the channel leaves and joins the topic again with the new filters.
+   *
+   * @internal
+   */
+  _syncPostgresChanges(): void {
+    if (!this._isJoined()) {
+      return
+    }
+    const requested = [...(this.bindings.postgres_changes ?? [])]
+    const postgres_changes = requested.map((bind) => bind.filter)
+    this.updateJoinPayload({
+      config: { ...this.joinPush.payload.config, postgres_changes },
+    })
+
+    const rejoin = (reason: string) => {
+      if (!this._isJoined()) {
+        return
+      }
+      this.socket.log('channel', `rejoin ${this.topic} due to ${reason}`)
+      this._rejoinInPlace()
+    }
+    if (
+      !this._serverCapabilities.includes(CHANNEL_EVENTS.postgres_changes_update)
+    ) {
+      rejoin('change in postgres changes callbacks on joined channel')
+      return
+    }
+    this._push(
+      CHANNEL_EVENTS.postgres_changes_update,
+      { postgres_changes },
+      this.timeout
+    )
+      .receive('ok', (reply: Partial<PostgresChangesFilters>) => {
+        if (
+          !this._reconcilePostgresBindings(requested, reply?.postgres_changes)
+        ) {
+          rejoin('a mismatch updating postgres changes')
+        }
+      })
+      .receive('error', () => rejoin('an error updating postgres changes'))
+      .receive('timeout', () => rejoin('a timeout updating postgres changes'))
+  }
+
+  /**
+   * Leaves the topic and joins it again with the current join payload. Unlike `unsubscribe()`, the channel
+   * does not close, so it stays registered on the client and keeps its bindings and subscribe callbacks.
+   *
+   * @internal
+   */
+  private _rejoinInPlace(): void {
+    const leavePush = new Push(this, CHANNEL_EVENTS.leave, {}, this.timeout)
+    const rejoin = () => {
+      leavePush.destroy()
+      if (this._isJoined()) {
+        this.state = CHANNEL_STATES.joining
+        this.joinPush.resend(this.timeout)
+      }
+    }
+    leavePush
+      .receive('ok', rejoin)
+      .receive('error', rejoin)
+      .receive('timeout', rejoin)
+    leavePush.send()
+  }
+
   /** @internal */
   private static isEqual(
     obj1: { [key: string]: string },
@@ -811,12 +1443,42 @@ export default class RealtimeChannel {
     return true
   }
 
-  /** @internal */
+  /**
+   * Retries the join, waiting without spending attempts while the socket is down.
+   *
+   * @internal
+   */
   private _rejoinUntilConnected() {
-    this.rejoinTimer.scheduleTimeout()
-    if (this.socket.isConnected()) {
-      this._rejoin()
+    if (!this.socket.isConnected()) {
+      this.rejoinTimer.reset()
+      this.rejoinTimer.scheduleTimeout()
+      return
     }
+    this._scheduleRejoin()
+    this._rejoin()
+  }
+
+  /**
+   * Schedules the next rejoin attempt, reporting when the backoff policy has run out of attempts.
+   *
+   * @internal
+   */
+  private _scheduleRejoin() {
+    if (this.rejoinTimer.scheduleTimeout() === null) {
+      this.socket.log(
+        'channel',
+        `gave up rejoining ${this.topic} after ${this.rejoinTimer.tries} attempts`
+      )
+      this.socket._triggerStateCallbacks('gaveUp', {
+        attempts: this.rejoinTimer.tries,
+        topic: this.topic,
+      })
+    }
+  }
+
+  /** @internal */
+  private _endStreams() {
+    this._streams.forEach((stream) => stream.end())
   }
 
   /**
@@ -0,0 +1,170 @@
+import type RealtimeChannel from './RealtimeChannel'
+import type {
+  RealtimeChannelSendResponse,
+  RealtimeChannelSendResult,
+  REALTIME_LISTEN_TYPES,
+} from './RealtimeChannel'
+import { REALTIME_SUBSCRIBE_STATES } from './RealtimeChannel'
+import type { RealtimePresenceState } from './RealtimePresence'
+
+type SendArgs = {
+  type: 'broadcast' | 'presence' | 'postgres_changes'
+  event: string
+  payload?: any
+  [key: string]: any
+}
+
+/**
+ * One holder's share of a channel joined once for all the handles of its topic.
+ *
+ * Handlers added through a handle are removed when it unsubscribes, and the channel leaves the
+ * topic once every handle has unsubscribed.
+ *
+ * @example
+ *    const chat = client.channelHandle('room:1')
+ *    chat.on('broadcast', { event: 'message' }, onMessage).subscribe()
+ *    const typing = client.channelHandle('room:1') // shares the join of `chat`
+ *    typing.on('broadcast', { event: 'typing' }, onTyping).subscribe()
+ *    await chat.unsubscribe() // only removes onMessage
+ */
+export default class RealtimeChannelHandle {
+  private _disposers: (() => void)[] = []
+  private _statusDisposers: (() => void)[] = []
+  private _unsubscribed: boolean = false
+
+  /**
+   * @param channel The shared channel.
+   * @param onRelease Called once when the handle unsubscribes, leaving the channel when it was the last handle.
+   * @param lingerMs How long the channel stays joined once the last handle unsubscribed, in milliseconds.
+   */
+  constructor(
+    public channel: RealtimeChannel,
+    private onRelease: (
+      handle: RealtimeChannelHandle
+    ) => Promise<RealtimeChannelSendResponse>,
+    public lingerMs: number = 0
+  ) {}
+
+  get topic(): string {
+    return this.channel.topic
+  }
+
+  /**
+   * Creates an event handler on the shared channel, removed when the handle unsubscribes.
+   *
+   * @param type One of "broadcast", "presence", "postgres_changes" or "system".
+   * @param filter Custom object specific to the Realtime feature detailing which payloads to receive.
+   * @param callback Function to be invoked when event handler is triggered.
+   */
+  on<T = any>(
+    type: `${REALTIME_LISTEN_TYPES}`,
+    filter: { [key: string]: any },
+    callback: (payload: T) => void
+  ): RealtimeChannelHandle {
+    this._disposers.push(this.channel.listen(type, filter, callback))
+    return this
+  }
+
+  /**
+   * Joins the shared channel unless another handle already did, reporting its status to `callback` once.
+   *
+   * While the channel is joining or rejoining after an error, the outcome of its next join attempt is reported.
+   * Nothing is reported once the handle has unsubscribed.
+   */
+  subscribe(
+    callback?: (status: REALTIME_SUBSCRIBE_STATES, err?: Error) => void,
+    timeout?: number
+  ): RealtimeChannelHandle {
+    if (this.channel._isClosed()) {
+      this.channel.subscribe(undefined, timeout)
+    } else if (this.channel._isJoined()) {
+      callback?.(REALTIME_SUBSCRIBE_STATES.SUBSCRIBED)
+      return this
+    }
+
+    // receive() reports the reply of a previous attempt right away, which is stale
+    let registering = true
+    const disposers: (() => void)[] = []
+    const report = (status: REALTIME_SUBSCRIBE_STATES) => {
+      if (registering) {
+        return
+      }
+      disposers.forEach((dispose) => dispose())
+      const error = this.channel.joinPush.error()
+      if (error) {
+        callback?.(status, error)
+      } else {
+        callback?.(status)
+      }
+    }
+    const statuses = {
+      ok: REALTIME_SUBSCRIBE_STATES.SUBSCRIBED,
+      error: REALTIME_SUBSCRIBE_STATES.CHANNEL_ERROR,
+      timeout: REALTIME_SUBSCRIBE_STATES.TIMED_OUT,
+    }
+    const { joinPush } = this.channel
+    Object.entries(statuses).forEach(([status, state]) => {
+      const hook = () => report(state)
+      joinPush.receive(status, hook)
+      disposers.push(() => joinPush.off(status, hook))
+    })
+    registering = false
+    this._statusDisposers.push(...disposers)
+    return this
+  }
+
+  send(
+    args: SendArgs,
+    opts: { [key: string]: any } = {}
+  ): Promise<RealtimeChannelSendResponse> {
+    return this.channel.send(args, opts)
+  }
+
+  sendDetailed(
+    args: SendArgs,
+    opts: { [key: string]: any } = {}
+  ): Promise<RealtimeChannelSendResult> {
+    return this.channel.sendDetailed(args, opts)
+  }
+
+  track(
+    payload: { [key: string]: any },
+    opts: { [key: string]: any } = {}
+  ): Promise<RealtimeChannelSendResponse> {
+    return this.channel.track(payload, opts)
+  }
+
+  untrack(
+    opts: { [key: string]: any } = {}
+  ): Promise<RealtimeChannelSendResponse> {
+    return this.channel.untrack(opts)
+  }
+
+  presenceState<
+    T extends { [key: string]: any } = {}
+  >(): RealtimePresenceState<T> {
+    return this.channel.presenceState<T>()
+  }
+
+  /**
+   * Removes the handlers of the handle, leaving the channel when no other handle holds it.
+   *
+   * Calling it more than once has no effect.
+   */
+  async unsubscribe(): Promise<RealtimeChannelSendResponse> {
+    if (this._unsubscribed) {
+      return 'ok'
+    }
+    this._unsubscribed = true
+    this._disposers.splice(0).forEach((dispose) => dispose())
+    this._statusDisposers.splice(0).forEach((dispose) => dispose())
+    return this.onRelease(this)
+  }
+
+  /**
+   * Releases a channel acquired with `client.acquireChannel()`, the same as `unsubscribe()`.
+   */
+  release(): Promise<RealtimeChannelSendResponse> {
+    return this.unsubscribe()
+  }
+}
@@ -0,0 +1,151 @@
+import { CHANNEL_EVENTS } from './lib/constants'
+import { RealtimeError } from './lib/errors'
+import type RealtimeClient from './RealtimeClient'
+import type {
+  RealtimeChannelOptions,
+  REALTIME_LISTEN_TYPES,
+  REALTIME_SUBSCRIBE_STATES,
+} from './RealtimeChannel'
+import type RealtimeChannel from './RealtimeChannel'
+
+export type RealtimeTopicMatch = {
+  /** The topic the message was received on, without the `realtime:` prefix. */
+  topic: string
+  /** The parts of the topic matched by each `*` of the pattern, in order. */
+  segments: string[]
+}
+
+/** Adds a handler of the pattern to the channel of a matching topic. */
+type PatternBinding = (
+  channel: RealtimeChannel,
+  match: RealtimeTopicMatch
+) => void
+
+/**
+ * Handles the messages of every topic matching a pattern, such as `room:*`, where each `*` matches one
+ * segment of the topic up to the next `:`.
+ *
+ * The server only sends messages for joined topics, so topics are joined with `add()`. Handlers are
+ * registered once on the pattern and receive which topic and segments matched along with the payload.
+ *
+ * @example
+ *    const rooms = client.channelPattern('room:*')
+ *    rooms.on('broadcast', { event: 'message' }, (message, { segments: [roomId] }) => {
+ *      console.log(roomId, message.payload)
+ *    })
+ *    rooms.add('room:123')
+ *    rooms.add('room:456')
+ */
+export default class RealtimeChannelPattern {
+  channels: Map<string, RealtimeChannel> = new Map()
+  private _bindings: PatternBinding[] = []
+  private _regex: RegExp
+
+  constructor(
+    /** The topic pattern, where each `*` matches one segment. */
+    public pattern: string,
+    /** The options of the channels of matching topics. */
+    public params: RealtimeChannelOptions = { config: {} },
+    public socket: RealtimeClient
+  ) {
+    const source = pattern
+      .replace(/^realtime:/i, '')
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('([^:]+)')
+    this._regex = new RegExp(`^${source}$`)
+  }
+
+  /**
+   * Returns the segments a topic matches, or `null` when it does not match the pattern.
+   */
+  match(topic: string): RealtimeTopicMatch | null {
+    const subTopic = topic.replace(/^realtime:/i, '')
+    const result = this._regex.exec(subTopic)
+    return result ? { topic: subTopic, segments: result.slice(1) } : null
+  }
+
+  /**
+   * Creates an event handler on the channels of all matching topics, joined and to be joined.
+   *
+   * @param type One of "broadcast", "presence", "postgres_changes" or "system".
+   * @param filter Custom object specific to the Realtime feature detailing which payloads to receive.
+   * @param callback Function invoked with the payload and the matched topic.
+   */
+  on<T = any>(
+    type: `${REALTIME_LISTEN_TYPES}`,
+    filter: { [key: string]: any },
+    callback: (payload: T, match: RealtimeTopicMatch) => void
+  ): RealtimeChannelPattern {
+    const binding: PatternBinding = (channel, match) =>
+      channel.listen<T>(type, filter, (payload) => callback(payload, match))
+    this._bindings.push(binding)
+    this.channels.forEach((channel) => this._bind(channel, binding))
+    return this
+  }
+
+  /**
+   * Subscribes to a topic matching the pattern, with the handlers of the pattern.
+   *
+   * Returns the topic's channel when it has already been added.
+   *
+   * @throws RealtimeError when the topic does not match, or its channel was subscribed outside the pattern.
+   */
+  add(
+    topic: string,
+    callback?: (status: REALTIME_SUBSCRIBE_STATES, err?: Error) => void
+  ): RealtimeChannel {
+    const match = this.match(topic)
+    if (!match) {
+      throw new RealtimeError(
+        `topic ${topic} does not match the pattern ${this.pattern}`
+      )
+    }
+    const existing = this.channels.get(match.topic)
+    if (existing) {
+      return existing
+    }
+    const subscribed = this.socket
+      .getChannels()
+      .find((channel) => channel.subTopic === match.topic)
+    if (subscribed && !subscribed._isClosed()) {
+      throw new RealtimeError(
+        `channel ${match.topic} was subscribed outside the pattern ${this.pattern}`
+      )
+    }
+
+    const channel = this.socket.channel(match.topic, this.params)
+    this.channels.set(match.topic, channel)
+    channel._on(CHANNEL_EVENTS.close, {}, () => {
+      if (this.channels.get(match.topic) === channel) {
+        this.channels.delete(match.topic)
+      }
+    })
+    this._bindings.forEach((binding) => this._bind(channel, binding))
+    return channel.subscribe(callback)
+  }
+
+  /**
+   * Unsubscribes from a topic and removes its channel.
+   */
+  async remove(topic: string): Promise<'ok' | 'timed out' | 'error'> {
+    const channel = this.channels.get(topic.replace(/^realtime:/i, ''))
+    if (!channel) {
+      return 'ok'
+    }
+    return this.socket.removeChannel(channel)
+  }
+
+  /**
+   * Unsubscribes from every topic of the pattern.
+   */
+  async unsubscribe(): Promise<('ok' | 'timed out' | 'error')[]> {
+    return Promise.all(
+      [...this.channels.keys()].map((topic) => this.remove(topic))
+    )
+  }
+
+  private _bind(channel: RealtimeChannel, binding: PatternBinding): void {
+    binding(channel, this.match(channel.topic)!)
+  }
+}
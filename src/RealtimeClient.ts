@@ -1,10 +1,12 @@
 import WebSocketFactory, { WebSocketLike } from './lib/websocket-factory'
+import LongPoll from './lib/longpoll'
 
 import {
   CHANNEL_EVENTS,
   CONNECTION_STATE,
   DEFAULT_VERSION,
   DEFAULT_TIMEOUT,
+  LONGPOLL_TIMEOUT,
   SOCKET_STATES,
   TRANSPORTS,
   VSN,
@@ -12,11 +14,39 @@ import {
 } from './lib/constants'
 
 import Serializer from './lib/serializer'
+import type { RealtimeCodec } from './lib/codec'
 import Timer from './lib/timer'
+import Backoff from './lib/backoff'
+import type { BackoffOptions } from './lib/backoff'
+import ConnectivityMonitor from './lib/connectivity'
+import ConnectionStats from './lib/connection-stats'
+import type { RealtimeConnectionStats } from './lib/connection-stats'
+import AdaptiveHeartbeat from './lib/adaptive-heartbeat'
+import type { AdaptiveHeartbeatOptions } from './lib/adaptive-heartbeat'
+import type { ConnectivityOptions } from './lib/connectivity'
+import BroadcastBatcher from './lib/broadcast-batcher'
+import RateLimiter from './lib/rate-limiter'
+import type { RateLimitOptions } from './lib/rate-limiter'
+import type { BroadcastBatchingOptions } from './lib/broadcast-batcher'
+import Outbox from './lib/outbox'
+import type { OutboxOptions } from './lib/outbox'
+import { MemoryOutboxStorage } from './lib/outbox-storage'
+import { broadcastMessages } from './lib/broadcast'
+import type { RealtimeBroadcastMessage } from './lib/broadcast'
 
 import { httpEndpointURL } from './lib/transformers'
+import {
+  RealtimeAuthError,
+  RealtimeError,
+  RealtimeTransportError,
+} from './lib/errors'
 import RealtimeChannel from './RealtimeChannel'
-import type { RealtimeChannelOptions } from './RealtimeChannel'
+import RealtimeChannelPattern from './RealtimeChannelPattern'
+import RealtimeChannelHandle from './RealtimeChannelHandle'
+import type {
+  RealtimeChannelOptions,
+  RealtimeChannelSendResult,
+} from './RealtimeChannel'
 
 type Fetch = typeof fetch
 
@@ -41,9 +71,27 @@ export type HeartbeatStatus =
   | 'sent'
   | 'ok'
   | 'error'
+  | 'missed'
   | 'timeout'
   | 'disconnected'
 
+export type RealtimeClientEventMap = {
+  open: void
+  close: CloseEvent
+  error: Event
+  message: RealtimeMessage
+  reconnecting: { attempt: number; delayMs: number }
+  reconnected: { attempts: number }
+  gaveUp: { attempts: number; topic?: string }
+  stateChange: { previous: CONNECTION_STATE; next: CONNECTION_STATE }
+}
+
+export type RealtimeClientEvent = keyof RealtimeClientEventMap
+
+export type RealtimeClientEventCallback<E extends RealtimeClientEvent> = (
+  payload: RealtimeClientEventMap[E]
+) => void
+
 const noop = () => {}
 
 type RealtimeClientState =
@@ -52,6 +100,15 @@ type RealtimeClientState =
   | 'disconnecting'
   | 'disconnected'
 
+const CLIENT_CONNECTION_STATES: {
+  [state in RealtimeClientState]: CONNECTION_STATE
+} = {
+  connecting: CONNECTION_STATE.Connecting,
+  connected: CONNECTION_STATE.Open,
+  disconnecting: CONNECTION_STATE.Closing,
+  disconnected: CONNECTION_STATE.Closed,
+}
+
 // Connection-related constants
 const CONNECTION_TIMEOUTS = {
   HEARTBEAT_INTERVAL: 25000,
@@ -79,13 +136,25 @@ export interface WebSocketLikeError {
 
 export type RealtimeClientOptions = {
   transport?: WebSocketLikeConstructor
+  longPollFallbackAttempts?: number
   timeout?: number
   heartbeatIntervalMs?: number
-  heartbeatCallback?: (status: HeartbeatStatus) => void
+  adaptiveHeartbeat?: boolean | AdaptiveHeartbeatOptions
+  heartbeatCallback?: (status: HeartbeatStatus, latencyMs?: number) => void
   logger?: Function
+  codec?: RealtimeCodec
+  /** @deprecated Use `codec` instead */
   encode?: Function
+  /** @deprecated Use `codec` instead */
   decode?: Function
+  broadcastEncoding?: 'json' | 'binary'
+  broadcastBatching?: boolean | BroadcastBatchingOptions
+  broadcastRetry?: BackoffOptions
+  rateLimit?: RateLimitOptions
+  outbox?: boolean | OutboxOptions
   reconnectAfterMs?: Function
+  backoff?: BackoffOptions
+  connectivity?: boolean | ConnectivityOptions
   headers?: { [key: string]: string }
   params?: { [key: string]: any }
   //Deprecated: Use it in favour of correct casing `logLevel`
@@ -115,30 +184,41 @@ export default class RealtimeClient {
   params?: { [key: string]: string } = {}
   timeout: number = DEFAULT_TIMEOUT
   transport: WebSocketLikeConstructor | null = null
+  longPollFallbackAttempts: number | null = null
   heartbeatIntervalMs: number = CONNECTION_TIMEOUTS.HEARTBEAT_INTERVAL
   heartbeatTimer: ReturnType<typeof setInterval> | undefined = undefined
   pendingHeartbeatRef: string | null = null
-  heartbeatCallback: (status: HeartbeatStatus) => void = noop
+  connectionStats: ConnectionStats = new ConnectionStats()
+  adaptiveHeartbeat: AdaptiveHeartbeat | null = null
+  heartbeatCallback: (status: HeartbeatStatus, latencyMs?: number) => void =
+    noop
   ref: number = 0
   reconnectTimer: Timer | null = null
   logger: Function = noop
   logLevel?: LogLevel
-  encode!: Function
-  decode!: Function
+  codec!: RealtimeCodec
+  encode!: RealtimeCodec['encode']
+  decode!: RealtimeCodec['decode']
   reconnectAfterMs!: Function
+  backoff: BackoffOptions | null = null
   conn: WebSocketLike | null = null
   sendBuffer: Function[] = []
   serializer: Serializer = new Serializer()
+  broadcastBatcher: BroadcastBatcher | null = null
+  broadcastRetry: BackoffOptions | null = null
+  rateLimiter: RateLimiter | null = null
+  outbox: Outbox | null = null
   stateChangeCallbacks: {
-    open: Function[]
-    close: Function[]
-    error: Function[]
-    message: Function[]
+    [E in RealtimeClientEvent]: RealtimeClientEventCallback<E>[]
   } = {
     open: [],
     close: [],
     error: [],
     message: [],
+    reconnecting: [],
+    reconnected: [],
+    gaveUp: [],
+    stateChange: [],
   }
   fetch: Fetch
   accessToken: (() => Promise<string | null>) | null = null
@@ -148,6 +228,17 @@ export default class RealtimeClient {
   private _connectionState: RealtimeClientState = 'disconnected'
   private _wasManualDisconnect: boolean = false
   private _authPromise: Promise<void> | null = null
+  private _failedWebSocketAttempts: number = 0
+  private _useLongPoll: boolean = false
+  private _connectivity: ConnectivityMonitor | null = null
+  private _idleDisconnected: boolean = false
+  private _gaveUp: boolean = false
+  private _heartbeatSentAt: number | null = null
+  private _channelHandles: Map<RealtimeChannel, Set<RealtimeChannelHandle>> =
+    new Map()
+  private _directChannels: Set<RealtimeChannel> = new Set()
+  private _lingerTimers: Map<RealtimeChannel, ReturnType<typeof setTimeout>> =
+    new Map()
 
   /**
    * Initializes the Socket.
@@ -155,23 +246,33 @@ export default class RealtimeClient {
    * @param endPoint The string WebSocket endpoint, ie, "ws://example.com/socket", "wss://example.com", "/socket" (inherited host & protocol)
    * @param httpEndpoint The string HTTP endpoint, ie, "https://example.com", "/" (inherited host & protocol)
    * @param options.transport The Websocket Transport, for example WebSocket. This can be a custom implementation
+   * @param options.longPollFallbackAttempts The number of consecutive failed WebSocket attempts after which the client switches to HTTP long-polling. Also used when WebSocket is not available at all. Disabled by default.
    * @param options.timeout The default timeout in milliseconds to trigger push timeouts.
    * @param options.params The optional params to pass when connecting.
    * @param options.headers Deprecated: headers cannot be set on websocket connections and this option will be removed in the future.
    * @param options.heartbeatIntervalMs The millisec interval to send a heartbeat message.
-   * @param options.heartbeatCallback The optional function to handle heartbeat status.
+   * @param options.adaptiveHeartbeat Adapts the heartbeat interval to reply times between `minIntervalMs` and `maxIntervalMs`, and tolerates `maxMissed` consecutive missed replies before closing the connection. Not used with `worker`.
+   * @param options.heartbeatCallback The optional function to handle heartbeat status. Replies to a heartbeat also pass its round-trip time in milliseconds.
    * @param options.logger The optional function for specialized logging, ie: logger: (kind, msg, data) => { console.log(`${kind}: ${msg}`, data) }
    * @param options.logLevel Sets the log level for Realtime
-   * @param options.encode The function to encode outgoing messages. Defaults to JSON: (payload, callback) => callback(JSON.stringify(payload))
-   * @param options.decode The function to decode incoming messages. Defaults to Serializer's decode.
+   * @param options.codec The codec used to encode outgoing and decode incoming messages. Defaults to the built-in JSON/binary Serializer.
+   * @param options.encode Deprecated: use `codec`. The function to encode outgoing messages. Takes precedence over `codec.encode`.
+   * @param options.decode Deprecated: use `codec`. The function to decode incoming messages. Takes precedence over `codec.decode`.
+   * @param options.broadcastEncoding The wire format for outgoing broadcasts of the default codec, either 'json' or 'binary'. Defaults to 'json'. 'binary' connects with protocol version 2.0.0, which the server requires to accept binary frames, and is needed to send raw binary payloads and compressed broadcasts.
+   * @param options.broadcastBatching Coalesces the broadcasts channels send over HTTP within `windowMs` into one request, sent early once `maxMessages` are pending.
+   * @param options.broadcastRetry The backoff policy retrying broadcasts sent over HTTP after 408, 425, 429 or 503 replies, honoring `Retry-After` up to `max`. Network errors are not retried, as the messages may have been broadcast. `maxAttempts` counts the first attempt and defaults to 3. Disabled by default.
+   * @param options.rateLimit Throttles the messages channels send to `rate` per second after a `burst`, queueing, dropping or coalescing the latest message per event over the limit. Channels may set their own limit with `config.rateLimit`.
+   * @param options.outbox Stores the broadcasts and latest presence track sent while a subscribed channel is disconnected, and replays them in order once it rejoins. Pass a `storage` such as `IndexedDBOutboxStorage` or `FileOutboxStorage` to keep them across reloads, and a `ttl` in milliseconds after which they are discarded. Disabled by default.
    * @param options.reconnectAfterMs he optional function that returns the millsec reconnect interval. Defaults to stepped backoff off.
+   * @param options.backoff The exponential backoff policy for reconnects and channel rejoins: base, factor, max, jitter and maxAttempts. Takes precedence over `reconnectAfterMs`.
+   * @param options.connectivity Opt-in browser network awareness: reconnects are paused while offline and start over with a full set of attempts once the network is back. With `hiddenTimeoutMs`, the connection is closed once the page has been hidden that long and reopened when it is visible again.
    * @param options.worker Use Web Worker to set a side flow. Defaults to false.
    * @param options.workerUrl The URL of the worker script. Defaults to https://realtime.supabase.com/worker.js that includes a heartbeat event call to keep the connection alive.
    */
   constructor(endPoint: string, options?: RealtimeClientOptions) {
     // Validate required parameters
     if (!options?.params?.apikey) {
-      throw new Error('API key is required to connect to Realtime')
+      throw new RealtimeAuthError('API key is required to connect to Realtime')
     }
     this.apiKey = options.params.apikey
 
@@ -197,11 +298,21 @@ export default class RealtimeClient {
       return
     }
 
+    if (this._gaveUp) {
+      // a manual connect after giving up starts over with a full set of attempts
+      this._gaveUp = false
+      this._clearTimer('reconnect')
+    }
+    this.channels.forEach((channel) => channel._resetRejoin())
     this._setConnectionState('connecting')
     this._setAuthSafely('connect')
+    this._idleDisconnected = false
+    this._connectivity?.start()
 
     // Establish WebSocket connection
-    if (this.transport) {
+    if (this._shouldUseLongPoll()) {
+      this.conn = this._createLongPoll()
+    } else if (this.transport) {
       // Use custom transport if provided
       this.conn = new this.transport(this.endpointURL()) as WebSocketLike
     } else {
@@ -209,30 +320,32 @@ export default class RealtimeClient {
       try {
         this.conn = WebSocketFactory.createWebSocket(this.endpointURL())
       } catch (error) {
-        this._setConnectionState('disconnected')
-        const errorMessage = (error as Error).message
-
-        // Provide helpful error message based on environment
-        if (errorMessage.includes('Node.js')) {
-          throw new Error(
-            `${errorMessage}\n\n` +
-              'To use Realtime in Node.js, you need to provide a WebSocket implementation:\n\n' +
-              'Option 1: Use Node.js 22+ which has native WebSocket support\n' +
-              'Option 2: Install and provide the "ws" package:\n\n' +
-              '  npm install ws\n\n' +
-              '  import ws from "ws"\n' +
-              '  const client = new RealtimeClient(url, {\n' +
-              '    ...options,\n' +
-              '    transport: ws\n' +
-              '  })'
+        if (this.longPollFallbackAttempts !== null) {
+          this.log(
+            'transport',
+            `WebSocket not available, falling back to long-polling`,
+            error
           )
+          this._useLongPoll = true
+          this.conn = this._createLongPoll()
+        } else {
+          this._throwWebSocketUnavailable(error as Error)
         }
-        throw new Error(`WebSocket not available: ${errorMessage}`)
       }
     }
+    if (!this._useLongPoll) {
+      this._failedWebSocketAttempts++
+    }
     this._setupConnectionHandlers()
   }
 
+  /**
+   * Returns `true` if the client is connecting through HTTP long-polling instead of WebSocket.
+   */
+  isLongPolling(): boolean {
+    return this._useLongPoll
+  }
+
   /**
    * Returns the URL of the websocket.
    * @returns string The URL of the websocket.
@@ -240,7 +353,7 @@ export default class RealtimeClient {
   endpointURL(): string {
     return this._appendParams(
       this.endPoint,
-      Object.assign({}, this.params, { vsn: VSN })
+      Object.assign({}, this.params, { vsn: this.codec.vsn ?? VSN })
     )
   }
 
@@ -256,31 +369,41 @@ export default class RealtimeClient {
     }
 
     this._setConnectionState('disconnecting', true)
+    this._idleDisconnected = false
+    this._connectivity?.stop()
 
     if (this.conn) {
-      // Setup fallback timer to prevent hanging in disconnecting state
-      const fallbackTimer = setTimeout(() => {
-        this._setConnectionState('disconnected')
-      }, 100)
-
-      this.conn.onclose = () => {
-        clearTimeout(fallbackTimer)
-        this._setConnectionState('disconnected')
-      }
-
-      // Close the WebSocket connection
-      if (code) {
-        this.conn.close(code, reason ?? '')
-      } else {
-        this.conn.close()
-      }
-
+      this._closeConn(
+        () => this._setConnectionState('disconnected'),
+        code,
+        reason
+      )
       this._teardownConnection()
     } else {
       this._setConnectionState('disconnected')
     }
   }
 
+  /**
+   * Registers a callback for a connection lifecycle event.
+   *
+   * @param event One of 'open', 'close', 'error', 'message', 'reconnecting', 'reconnected' or 'stateChange'.
+   * @param callback Called with the event payload, ie, the close event for 'close' or the attempt number for 'reconnecting'.
+   * @returns A function that unregisters the callback.
+   */
+  on<E extends RealtimeClientEvent>(
+    event: E,
+    callback: RealtimeClientEventCallback<E>
+  ): () => void {
+    const callbacks: RealtimeClientEventCallback<E>[] =
+      this.stateChangeCallbacks[event]
+    callbacks.push(callback)
+    return () => {
+      const index = callbacks.indexOf(callback)
+      if (index !== -1) callbacks.splice(index, 1)
+    }
+  }
+
   /**
    * Returns all created channels
    */
@@ -365,6 +488,22 @@ export default class RealtimeClient {
   channel(
     topic: string,
     params: RealtimeChannelOptions = { config: {} }
+  ): RealtimeChannel {
+    const channel = this._findOrCreateChannel(topic, params)
+    clearTimeout(this._lingerTimers.get(channel))
+    this._lingerTimers.delete(channel)
+    this._directChannels.add(channel)
+    return channel
+  }
+
+  /**
+   * Returns the channel of a topic, creating it if needed, without marking it as held by a `channel()` caller.
+   *
+   * @internal
+   */
+  private _findOrCreateChannel(
+    topic: string,
+    params: RealtimeChannelOptions
   ): RealtimeChannel {
     const realtimeTopic = `realtime:${topic}`
     const exists = this.getChannels().find(
@@ -381,6 +520,60 @@ export default class RealtimeClient {
     }
   }
 
+  /**
+   * Returns a new handle to the channel of a topic, shared with the other handles and `channel()` callers of the topic.
+   *
+   * The channel joins once for all of them and leaves when the last handle unsubscribes, unless it was also obtained
+   * with `channel()`, whose callers remove it with `removeChannel()`. Each handle only removes its own handlers.
+   *
+   * @param topic The topic of the channel.
+   * @param params The options of the channel, which must agree with those it was created with.
+   * @throws RealtimeError with code 'config_mismatch' when the channel exists with different `private`, `broadcast` or `presence` options.
+   */
+  channelHandle(
+    topic: string,
+    params: RealtimeChannelOptions = { config: {} }
+  ): RealtimeChannelHandle {
+    return this._createChannelHandle(topic, params, 0)
+  }
+
+  /**
+   * Subscribes to a topic through a new handle, sharing the channel with the other holders of the topic.
+   *
+   * The channel leaves once every holder has released it, after `lingerMs` when given, so that acquiring
+   * the topic again meanwhile reuses the joined channel.
+   *
+   * @param topic The topic of the channel.
+   * @param opts The options of the channel, which must agree with those it was created with.
+   * @param opts.lingerMs How long the channel stays joined once the last holder released it, in milliseconds. Defaults to 0.
+   * @throws RealtimeError with code 'config_mismatch' when the channel exists with different `private`, `broadcast` or `presence` options.
+   *
+   * @example
+   *    const room = client.acquireChannel('room:1', { config: {}, lingerMs: 1000 })
+   *    room.on('broadcast', { event: 'message' }, onMessage)
+   *    room.release() // leaves in a second, unless the topic is acquired again
+   */
+  acquireChannel(
+    topic: string,
+    opts: RealtimeChannelOptions & { lingerMs?: number } = { config: {} }
+  ): RealtimeChannelHandle {
+    const { lingerMs = 0, ...params } = opts
+    return this._createChannelHandle(topic, params, lingerMs).subscribe()
+  }
+
+  /**
+   * Returns a handle to the topics matching a pattern such as `room:*`, whose handlers receive the matched segments.
+   *
+   * @param pattern The topic pattern, where each `*` matches one segment up to the next `:`.
+   * @param params The options of the channels of matching topics.
+   */
+  channelPattern(
+    pattern: string,
+    params: RealtimeChannelOptions = { config: {} }
+  ): RealtimeChannelPattern {
+    return new RealtimeChannelPattern(pattern, params, this)
+  }
+
   /**
    * Push out a message if the socket is connected.
    *
@@ -418,6 +611,47 @@ export default class RealtimeClient {
       this._authPromise = null
     }
   }
+  /**
+   * Broadcasts messages to any number of topics with a single request to the REST broadcast endpoint.
+   *
+   * Resolves with one result per message, in order. The endpoint accepts or rejects a request as a whole,
+   * so all messages share its outcome, except binary payloads which can only be sent over a joined channel.
+   *
+   * @example
+   *    const results = await client.broadcastBatch([
+   *      { topic: 'room:1', event: 'update', payload: { n: 1 } },
+   *      { topic: 'room:2', event: 'update', payload: { n: 2 }, private: true },
+   *    ])
+   */
+  async broadcastBatch(
+    messages: RealtimeBroadcastMessage[],
+    opts: { timeout?: number } = {}
+  ): Promise<RealtimeChannelSendResult[]> {
+    const results = await broadcastMessages(messages, {
+      fetch: this.fetch,
+      url: this.httpEndpoint,
+      headers: {
+        Authorization: this.accessTokenValue
+          ? `Bearer ${this.accessTokenValue}`
+          : '',
+        apikey: this.apiKey ? this.apiKey : '',
+      },
+      timeout: opts.timeout ?? this.timeout,
+      backoff: this.broadcastRetry
+        ? new Backoff(this.broadcastRetry)
+        : undefined,
+    })
+    results.forEach(({ error }, i) => {
+      if (error?.code === 'unsupported') {
+        this.log(
+          'channel',
+          `binary payloads can only be sent over a joined channel: ${messages[i].topic} ${messages[i].event}`
+        )
+      }
+    })
+    return results
+  }
+
   /**
    * Sends a heartbeat message if the socket is connected.
    */
@@ -431,9 +665,30 @@ export default class RealtimeClient {
       return
     }
 
+    // Tolerate missed heartbeats in adaptive mode, probing again at a shorter interval
+    if (this.pendingHeartbeatRef && this.adaptiveHeartbeat?.miss()) {
+      this.pendingHeartbeatRef = null
+      this._heartbeatSentAt = null
+      this.connectionStats.miss()
+      this.log(
+        'transport',
+        `heartbeat missed (${this.adaptiveHeartbeat.missed}/${this.adaptiveHeartbeat.maxMissed}), retrying`
+      )
+      try {
+        this.heartbeatCallback('missed')
+      } catch (e) {
+        this.log('error', 'error in heartbeat callback', e)
+      }
+      if (!this.worker) {
+        this._startHeartbeat()
+      }
+    }
+
     // Handle heartbeat timeout and force reconnection if needed
     if (this.pendingHeartbeatRef) {
       this.pendingHeartbeatRef = null
+      this._heartbeatSentAt = null
+      this.connectionStats.miss()
       this.log(
         'transport',
         'heartbeat timeout. Attempting to re-establish connection'
@@ -458,6 +713,7 @@ export default class RealtimeClient {
 
     // Send heartbeat message to server
     this.pendingHeartbeatRef = this._makeRef()
+    this._heartbeatSentAt = Date.now()
     this.push({
       topic: 'phoenix',
       event: 'heartbeat',
@@ -473,7 +729,16 @@ export default class RealtimeClient {
     this._setAuthSafely('heartbeat')
   }
 
-  onHeartbeat(callback: (status: HeartbeatStatus) => void): void {
+  /**
+   * Returns round-trip statistics over the most recent heartbeats: min, average and p95 latency, jitter and missed replies.
+   */
+  getConnectionStats(): RealtimeConnectionStats {
+    return this.connectionStats.snapshot()
+  }
+
+  onHeartbeat(
+    callback: (status: HeartbeatStatus, latencyMs?: number) => void
+  ): void {
     this.heartbeatCallback = callback
   }
   /**
@@ -501,9 +766,10 @@ export default class RealtimeClient {
         import('@supabase/node-fetch' as any)
           .then(({ default: fetch }) => fetch(...args))
           .catch((error) => {
-            throw new Error(
+            throw new RealtimeTransportError(
               `Failed to load @supabase/node-fetch: ${error.message}. ` +
-                `This is required for HTTP requests in Node.js environments without native fetch.`
+                `This is required for HTTP requests in Node.js environments without native fetch.`,
+              { cause: error }
             )
           })
     } else {
@@ -552,25 +818,134 @@ export default class RealtimeClient {
    */
   _remove(channel: RealtimeChannel) {
     this.channels = this.channels.filter((c) => c.topic !== channel.topic)
+    this._channelHandles.delete(channel)
+    this._directChannels.delete(channel)
+    clearTimeout(this._lingerTimers.get(channel))
+    this._lingerTimers.delete(channel)
+  }
+
+  /**
+   * Creates a handle to the channel of a topic, keeping the channel joined if it was lingering.
+   *
+   * @internal
+   */
+  private _createChannelHandle(
+    topic: string,
+    params: RealtimeChannelOptions,
+    lingerMs: number
+  ): RealtimeChannelHandle {
+    const channel = this._findOrCreateChannel(topic, params)
+    this._assertChannelConfig(channel, params)
+    clearTimeout(this._lingerTimers.get(channel))
+    this._lingerTimers.delete(channel)
+
+    const handle = new RealtimeChannelHandle(
+      channel,
+      (h) => this._releaseChannelHandle(h),
+      lingerMs
+    )
+    const handles = this._channelHandles.get(channel) ?? new Set()
+    handles.add(handle)
+    this._channelHandles.set(channel, handles)
+    return handle
+  }
+
+  /**
+   * Throws when the options a channel was created with differ from `params` in ways the server sees.
+   *
+   * @internal
+   */
+  private _assertChannelConfig(
+    channel: RealtimeChannel,
+    params: RealtimeChannelOptions
+  ): void {
+    const serverConfig = ({ config }: RealtimeChannelOptions) => ({
+      private: config.private ?? false,
+      self: config.broadcast?.self ?? false,
+      ack: config.broadcast?.ack ?? false,
+      presenceKey: config.presence?.key ?? '',
+    })
+    const existing = serverConfig(channel.params)
+    const requested = serverConfig(params)
+    const mismatch = (
+      Object.keys(existing) as (keyof typeof existing)[]
+    ).filter((key) => existing[key] !== requested[key])
+
+    if (mismatch.length > 0) {
+      throw new RealtimeError(
+        `channel ${
+          channel.topic
+        } already exists with different options: ${mismatch.join(', ')}`,
+        { code: 'config_mismatch' }
+      )
+    }
+  }
+
+  /**
+   * Forgets a handle, leaving its channel when neither another handle nor a `channel()` caller holds it,
+   * after the handle's `lingerMs`.
+   *
+   * @internal
+   */
+  private async _releaseChannelHandle(
+    handle: RealtimeChannelHandle
+  ): Promise<RealtimeRemoveChannelResponse> {
+    const { channel, lingerMs } = handle
+    const handles = this._channelHandles.get(channel)
+    handles?.delete(handle)
+    if (handles && handles.size > 0) {
+      return 'ok'
+    }
+    this._channelHandles.delete(channel)
+    if (this._directChannels.has(channel)) {
+      return 'ok'
+    }
+    if (lingerMs <= 0) {
+      return this.removeChannel(channel)
+    }
+
+    this.log('channel', `lingering ${channel.topic} for ${lingerMs}ms`)
+    this._lingerTimers.set(
+      channel,
+      setTimeout(() => {
+        this._lingerTimers.delete(channel)
+        this.removeChannel(channel)
+      }, lingerMs)
+    )
+    return 'ok'
   }
 
   /** @internal */
   private _onConnMessage(rawMessage: { data: any }) {
     this.decode(rawMessage.data, (msg: RealtimeMessage) => {
+      // Measure the round-trip of the pending heartbeat
+      let latencyMs: number | undefined
+      if (msg.ref && msg.ref === this.pendingHeartbeatRef) {
+        this.pendingHeartbeatRef = null
+        if (this._heartbeatSentAt !== null) {
+          latencyMs = Date.now() - this._heartbeatSentAt
+          this._heartbeatSentAt = null
+          this.connectionStats.record(latencyMs)
+          if (this.adaptiveHeartbeat?.reply(latencyMs) && !this.worker) {
+            this._startHeartbeat()
+          }
+        }
+      }
+
       // Handle heartbeat responses
       if (msg.topic === 'phoenix' && msg.event === 'phx_reply') {
+        const status = msg.payload.status === 'ok' ? 'ok' : 'error'
         try {
-          this.heartbeatCallback(msg.payload.status === 'ok' ? 'ok' : 'error')
+          if (latencyMs === undefined) {
+            this.heartbeatCallback(status)
+          } else {
+            this.heartbeatCallback(status, latencyMs)
+          }
         } catch (e) {
           this.log('error', 'error in heartbeat callback', e)
         }
       }
 
-      // Handle pending heartbeat reference cleanup
-      if (msg.ref && msg.ref === this.pendingHeartbeatRef) {
-        this.pendingHeartbeatRef = null
-      }
-
       // Log incoming message
       const { topic, event, payload, ref } = msg
       const refString = ref ? `(${ref})` : ''
@@ -623,7 +998,7 @@ export default class RealtimeClient {
 
     // Set binary type if supported (browsers and most WebSocket implementations)
     if ('binaryType' in this.conn) {
-      ;(this.conn as any).binaryType = 'arraybuffer'
+      ;(this.conn as any).binaryType = this.codec.binaryType
     }
 
     this.conn.onopen = () => this._onConnOpen()
@@ -632,6 +1007,45 @@ export default class RealtimeClient {
     this.conn.onclose = (event: any) => this._onConnClose(event)
   }
 
+  /**
+   * Close the connection, calling `onClose` once closed or after 100ms, whichever comes first,
+   * with a close event made up from `code` and `reason` in the latter case
+   * @internal
+   */
+  private _closeConn(
+    onClose: (event: CloseEvent) => void,
+    code?: number,
+    reason?: string
+  ): void {
+    const conn = this.conn!
+    const closed = (event: CloseEvent) => {
+      clearTimeout(fallbackTimer)
+      conn.onopen = null
+      conn.onerror = null
+      conn.onmessage = null
+      conn.onclose = null
+      onClose(event)
+    }
+    // Setup fallback timer to prevent hanging in disconnecting state
+    const fallbackTimer = setTimeout(
+      () =>
+        closed({
+          type: 'close',
+          code: code ?? WS_CLOSE_NORMAL,
+          reason: reason ?? '',
+          wasClean: false,
+        } as CloseEvent),
+      100
+    )
+    conn.onclose = (event: CloseEvent) => closed(event)
+
+    if (code) {
+      conn.close(code, reason ?? '')
+    } else {
+      conn.close()
+    }
+  }
+
   /**
    * Teardown connection and cleanup resources
    * @internal
@@ -650,12 +1064,19 @@ export default class RealtimeClient {
 
   /** @internal */
   private _onConnOpen() {
+    const reconnectAttempts = this.reconnectTimer?.tries ?? 0
     this._setConnectionState('connected')
-    this.log('transport', `connected to ${this.endpointURL()}`)
+    this._failedWebSocketAttempts = 0
+    this.log(
+      'transport',
+      `connected to ${this.endpointURL()} using ${this.codec.name} codec`
+    )
     this.flushSendBuffer()
     this._clearTimer('reconnect')
+    this.channels.forEach((channel) => channel._resetRejoin())
 
     if (!this.worker) {
+      this.adaptiveHeartbeat?.reset()
       this._startHeartbeat()
     } else {
       if (!this.workerRef) {
@@ -664,13 +1085,18 @@ export default class RealtimeClient {
     }
 
     this._triggerStateCallbacks('open')
+    if (reconnectAttempts > 0) {
+      this._triggerStateCallbacks('reconnected', {
+        attempts: reconnectAttempts,
+      })
+    }
   }
   /** @internal */
   private _startHeartbeat() {
     this.heartbeatTimer && clearInterval(this.heartbeatTimer)
     this.heartbeatTimer = setInterval(
       () => this.sendHeartbeat(),
-      this.heartbeatIntervalMs
+      this.adaptiveHeartbeat?.intervalMs ?? this.heartbeatIntervalMs
     )
   }
 
@@ -701,32 +1127,177 @@ export default class RealtimeClient {
   private _onConnClose(event: any) {
     this._setConnectionState('disconnected')
     this.log('transport', 'close', event)
-    this._triggerChanError()
+    this._triggerChanError(
+      new RealtimeTransportError(
+        `connection closed${event?.code ? ` with code ${event.code}` : ''}`,
+        { cause: event }
+      )
+    )
     this._clearTimer('heartbeat')
 
+    this._triggerStateCallbacks('close', event)
+
     // Only schedule reconnection if it wasn't a manual disconnect
     if (!this._wasManualDisconnect) {
-      this.reconnectTimer?.scheduleTimeout()
+      this._scheduleReconnect()
     }
+  }
 
-    this._triggerStateCallbacks('close', event)
+  /** @internal */
+  private _scheduleReconnect() {
+    if (!this.reconnectTimer) return
+    if (this._connectivity && !this._connectivity.isOnline()) {
+      this.log('transport', 'offline, waiting for the network to reconnect')
+      return
+    }
+
+    const delayMs = this.reconnectTimer.scheduleTimeout()
+    if (delayMs === null) {
+      this.log(
+        'transport',
+        `gave up reconnecting after ${this.reconnectTimer.tries} attempts`
+      )
+      this._gaveUp = true
+      this._triggerStateCallbacks('gaveUp', {
+        attempts: this.reconnectTimer.tries,
+      })
+      return
+    }
+    this._triggerStateCallbacks('reconnecting', {
+      attempt: this.reconnectTimer.tries + 1,
+      delayMs,
+    })
+  }
+
+  /** @internal */
+  private _onNetworkOffline() {
+    this.log('transport', 'network offline, pausing reconnects')
+    this.reconnectTimer?.cancel()
+  }
+
+  /** @internal */
+  private _onNetworkOnline() {
+    if (
+      this._wasManualDisconnect ||
+      this.isConnected() ||
+      this.isConnecting()
+    ) {
+      return
+    }
+    this.log('transport', 'network online, reconnecting')
+    if (!this.reconnectTimer) {
+      this.connect()
+      return
+    }
+    // starts over with a full set of attempts now that the network is back
+    this._gaveUp = false
+    this.reconnectTimer.reset()
+    this._scheduleReconnect()
+  }
+
+  /**
+   * Close the connection while the page is hidden, keeping channels to rejoin once it is visible
+   * @internal
+   */
+  private _onHiddenIdle() {
+    if (!this.isConnected()) {
+      return
+    }
+    this.log('transport', 'page hidden, closing idle connection')
+    this._setConnectionState('disconnecting', true)
+    this._idleDisconnected = true
+    this._closeConn(
+      (event) => this._onConnClose(event),
+      WS_CLOSE_NORMAL,
+      'idle'
+    )
+  }
+
+  /** @internal */
+  private _onVisible() {
+    if (!this._idleDisconnected) {
+      return
+    }
+    this.log('transport', 'page visible, reconnecting')
+    this.connect()
   }
 
   /** @internal */
   private _onConnError(error: Event) {
     this._setConnectionState('disconnected')
     this.log('transport', `${error}`)
-    this._triggerChanError()
+    this._triggerChanError(
+      new RealtimeTransportError('connection error', { cause: error })
+    )
     this._triggerStateCallbacks('error', error)
   }
 
   /** @internal */
-  private _triggerChanError() {
+  private _triggerChanError(error: RealtimeTransportError) {
     this.channels.forEach((channel: RealtimeChannel) =>
-      channel._trigger(CHANNEL_EVENTS.error)
+      channel._trigger(CHANNEL_EVENTS.error, error)
+    )
+  }
+
+  /**
+   * Switches to long-polling once WebSocket attempts have failed too many times in a row
+   * @internal
+   */
+  private _shouldUseLongPoll(): boolean {
+    if (
+      !this._useLongPoll &&
+      this.longPollFallbackAttempts !== null &&
+      this._failedWebSocketAttempts >= this.longPollFallbackAttempts
+    ) {
+      this.log(
+        'transport',
+        `falling back to long-polling after ${this._failedWebSocketAttempts} failed WebSocket attempts`
+      )
+      this._useLongPoll = true
+    }
+    return this._useLongPoll
+  }
+
+  /**
+   * Throw a helpful error when no WebSocket implementation is available
+   * @internal
+   */
+  private _throwWebSocketUnavailable(error: Error): never {
+    this._setConnectionState('disconnected')
+    const errorMessage = error.message
+
+    // Provide helpful error message based on environment
+    if (errorMessage.includes('Node.js')) {
+      throw new RealtimeTransportError(
+        `${errorMessage}\n\n` +
+          'To use Realtime in Node.js, you need to provide a WebSocket implementation:\n\n' +
+          'Option 1: Use Node.js 22+ which has native WebSocket support\n' +
+          'Option 2: Install and provide the "ws" package:\n\n' +
+          '  npm install ws\n\n' +
+          '  import ws from "ws"\n' +
+          '  const client = new RealtimeClient(url, {\n' +
+          '    ...options,\n' +
+          '    transport: ws\n' +
+          '  })',
+        { cause: error }
+      )
+    }
+    throw new RealtimeTransportError(
+      `WebSocket not available: ${errorMessage}`,
+      {
+        cause: error,
+      }
     )
   }
 
+  /** @internal */
+  private _createLongPoll(): WebSocketLike {
+    return new LongPoll(this.endpointURL(), {
+      fetch: this.fetch,
+      timeout: LONGPOLL_TIMEOUT,
+    })
+  }
+
   /** @internal */
   private _appendParams(
     url: string,
@@ -759,6 +1330,7 @@ export default class RealtimeClient {
     state: RealtimeClientState,
     manual = false
   ): void {
+    const previous = this._connectionState
     this._connectionState = state
 
     if (state === 'connecting') {
@@ -766,6 +1338,13 @@ export default class RealtimeClient {
     } else if (state === 'disconnecting') {
       this._wasManualDisconnect = manual
     }
+
+    if (previous !== state) {
+      this._triggerStateCallbacks('stateChange', {
+        previous: CLIENT_CONNECTION_STATES[previous],
+        next: CLIENT_CONNECTION_STATES[state],
+      })
+    }
   }
 
   /**
@@ -827,14 +1406,15 @@ export default class RealtimeClient {
    * Trigger state change callbacks with proper error handling
    * @internal
    */
-  private _triggerStateCallbacks(
-    event: keyof typeof this.stateChangeCallbacks,
-    data?: any
+  _triggerStateCallbacks<E extends RealtimeClientEvent>(
+    event: E,
+    data?: RealtimeClientEventMap[E]
   ): void {
     try {
-      this.stateChangeCallbacks[event].forEach((callback) => {
+      // Copy so callbacks can unsubscribe while being triggered
+      ;[...this.stateChangeCallbacks[event]].forEach((callback) => {
         try {
-          callback(data)
+          ;(callback as RealtimeClientEventCallback<E>)(data!)
         } catch (e) {
           this.log('error', `error in ${event} callback`, e)
         }
@@ -849,14 +1429,30 @@ export default class RealtimeClient {
    * @internal
    */
   private _setupReconnectionTimer(): void {
-    this.reconnectTimer = new Timer(async () => {
+    this.reconnectTimer = this._createRetryTimer(async () => {
       setTimeout(async () => {
         await this._waitForAuthIfNeeded()
         if (!this.isConnected()) {
           this.connect()
         }
       }, CONNECTION_TIMEOUTS.RECONNECT_DELAY)
-    }, this.reconnectAfterMs)
+    })
+  }
+
+  /**
+   * Create a timer retrying with the backoff policy, or `reconnectAfterMs` when there is none
+   * @internal
+   */
+  _createRetryTimer(callback: Function): Timer {
+    if (!this.backoff) {
+      return new Timer(callback, this.reconnectAfterMs)
+    }
+    const backoff = new Backoff(this.backoff)
+    return new Timer(
+      callback,
+      (tries: number) => backoff.delay(tries),
+      backoff.maxAttempts
+    )
   }
 
   /**
@@ -866,12 +1462,50 @@ export default class RealtimeClient {
   private _initializeOptions(options?: RealtimeClientOptions): void {
     // Set defaults
     this.transport = options?.transport ?? null
+    this.longPollFallbackAttempts = options?.longPollFallbackAttempts ?? null
     this.timeout = options?.timeout ?? DEFAULT_TIMEOUT
     this.heartbeatIntervalMs =
       options?.heartbeatIntervalMs ?? CONNECTION_TIMEOUTS.HEARTBEAT_INTERVAL
+    if (options?.adaptiveHeartbeat) {
+      this.adaptiveHeartbeat = new AdaptiveHeartbeat(
+        this.heartbeatIntervalMs,
+        options.adaptiveHeartbeat === true ? {} : options.adaptiveHeartbeat
+      )
+    }
     this.worker = options?.worker ?? false
     this.accessToken = options?.accessToken ?? null
     this.heartbeatCallback = options?.heartbeatCallback ?? noop
+    this.backoff = options?.backoff ?? null
+    this.broadcastRetry = options?.broadcastRetry
+      ? { maxAttempts: 3, ...options.broadcastRetry }
+      : null
+    if (options?.rateLimit) {
+      this.rateLimiter = new RateLimiter(options.rateLimit)
+    }
+    if (options?.outbox) {
+      const { storage = new MemoryOutboxStorage(), ...outboxOptions } =
+        options.outbox === true ? {} : options.outbox
+      this.outbox = new Outbox(storage, outboxOptions, (msg, entry) =>
+        this.log('outbox', msg, entry)
+      )
+    }
+    if (options?.broadcastBatching) {
+      this.broadcastBatcher = new BroadcastBatcher(
+        (messages, timeout) => this.broadcastBatch(messages, { timeout }),
+        options.broadcastBatching === true ? {} : options.broadcastBatching
+      )
+    }
+    if (options?.connectivity) {
+      this._connectivity = new ConnectivityMonitor(
+        {
+          onOnline: () => this._onNetworkOnline(),
+          onOffline: () => this._onNetworkOffline(),
+          onHiddenIdle: () => this._onHiddenIdle(),
+          onVisible: () => this._onVisible(),
+        },
+        options.connectivity === true ? {} : options.connectivity
+      )
+    }
     // Handle special cases
     if (options?.params) this.params = options.params
     if (options?.logger) this.logger = options.logger
@@ -887,19 +1521,25 @@ export default class RealtimeClient {
         return RECONNECT_INTERVALS[tries - 1] || DEFAULT_RECONNECT_FALLBACK
       })
 
+    this.serializer = new Serializer({
+      broadcastEncoding: options?.broadcastEncoding,
+    })
+    this.codec = options?.codec ?? this.serializer
+
     this.encode =
-      options?.encode ??
-      ((payload: JSON, callback: Function) => {
-        return callback(JSON.stringify(payload))
-      })
+      (options?.encode as RealtimeCodec['encode']) ??
+      this.codec.encode.bind(this.codec)
 
     this.decode =
-      options?.decode ?? this.serializer.decode.bind(this.serializer)
+      (options?.decode as RealtimeCodec['decode']) ??
+      this.codec.decode.bind(this.codec)
 
     // Handle worker setup
     if (this.worker) {
       if (typeof window !== 'undefined' && !window.Worker) {
-        throw new Error('Web Worker is not supported')
+        throw new RealtimeError('Web Worker is not supported', {
+          code: 'unsupported',
+        })
       }
       this.workerUrl = options?.workerUrl
     }
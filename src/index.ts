@@ -1,4 +1,7 @@
 import RealtimeClient, {
+  RealtimeClientEvent,
+  RealtimeClientEventCallback,
+  RealtimeClientEventMap,
   RealtimeClientOptions,
   RealtimeMessage,
   RealtimeRemoveChannelResponse,
@@ -7,6 +10,8 @@ import RealtimeClient, {
 import RealtimeChannel, {
   RealtimeChannelOptions,
   RealtimeChannelSendResponse,
+  RealtimeChannelSendResult,
+  RealtimeChannelStreamOptions,
   RealtimePostgresChangesFilter,
   RealtimePostgresChangesPayload,
   RealtimePostgresInsertPayload,
@@ -17,6 +22,14 @@ import RealtimeChannel, {
   REALTIME_SUBSCRIBE_STATES,
   REALTIME_CHANNEL_STATES,
 } from './RealtimeChannel'
+import RealtimeChannelHandle from './RealtimeChannelHandle'
+import RealtimeChannelPattern, {
+  RealtimeTopicMatch,
+} from './RealtimeChannelPattern'
+import RealtimeBroadcaster, {
+  RealtimeBroadcasterOptions,
+  RealtimeBroadcastSendOptions,
+} from './RealtimeBroadcaster'
 import RealtimePresence, {
   RealtimePresenceState,
   RealtimePresenceJoinPayload,
@@ -24,14 +37,79 @@ import RealtimePresence, {
   REALTIME_PRESENCE_LISTEN_EVENTS,
 } from './RealtimePresence'
 import WebSocketFactory, { WebSocketLike } from './lib/websocket-factory'
+import MessagePackCodec from './lib/msgpack'
+import LongPoll from './lib/longpoll'
+import {
+  RealtimeAuthError,
+  RealtimeBindingMismatchError,
+  RealtimeError,
+  RealtimeErrorCode,
+  RealtimeErrorOptions,
+  RealtimeTimeoutError,
+  RealtimeTransportError,
+} from './lib/errors'
+import type { RealtimeCodec } from './lib/codec'
+import type { BackoffJitter, BackoffOptions } from './lib/backoff'
+import type { ConnectivityOptions } from './lib/connectivity'
+import type { RealtimeConnectionStats } from './lib/connection-stats'
+import type { AdaptiveHeartbeatOptions } from './lib/adaptive-heartbeat'
+import type { EventStreamOverflow } from './lib/event-stream'
+import type { RealtimeBroadcastMessage } from './lib/broadcast'
+import type { BroadcastBatchingOptions } from './lib/broadcast-batcher'
+import type { RateLimitOptions, RateLimitPolicy } from './lib/rate-limiter'
+import type { OutboxEntry, OutboxOptions } from './lib/outbox'
+import {
+  FileOutboxStorage,
+  IndexedDBOutboxStorage,
+  LocalStorageOutboxStorage,
+  MemoryOutboxStorage,
+  OutboxFileSystem,
+  OutboxStorage,
+} from './lib/outbox-storage'
 
 export {
+  AdaptiveHeartbeatOptions,
+  BackoffJitter,
+  BackoffOptions,
+  BroadcastBatchingOptions,
+  ConnectivityOptions,
+  EventStreamOverflow,
+  FileOutboxStorage,
+  IndexedDBOutboxStorage,
+  LocalStorageOutboxStorage,
+  LongPoll,
+  MemoryOutboxStorage,
+  MessagePackCodec,
+  OutboxEntry,
+  OutboxFileSystem,
+  OutboxOptions,
+  OutboxStorage,
+  RateLimitOptions,
+  RateLimitPolicy,
+  RealtimeCodec,
   RealtimePresence,
   RealtimeChannel,
+  RealtimeChannelHandle,
   RealtimeChannelOptions,
+  RealtimeChannelPattern,
   RealtimeChannelSendResponse,
+  RealtimeChannelSendResult,
+  RealtimeChannelStreamOptions,
+  RealtimeAuthError,
+  RealtimeBindingMismatchError,
+  RealtimeBroadcaster,
+  RealtimeBroadcasterOptions,
+  RealtimeBroadcastMessage,
+  RealtimeBroadcastSendOptions,
   RealtimeClient,
+  RealtimeClientEvent,
+  RealtimeClientEventCallback,
+  RealtimeClientEventMap,
   RealtimeClientOptions,
+  RealtimeConnectionStats,
+  RealtimeError,
+  RealtimeErrorCode,
+  RealtimeErrorOptions,
   RealtimeMessage,
   RealtimePostgresChangesFilter,
   RealtimePostgresChangesPayload,
@@ -42,6 +120,9 @@ export {
   RealtimePresenceLeavePayload,
   RealtimePresenceState,
   RealtimeRemoveChannelResponse,
+  RealtimeTimeoutError,
+  RealtimeTopicMatch,
+  RealtimeTransportError,
   REALTIME_LISTEN_TYPES,
   REALTIME_POSTGRES_CHANGES_LISTEN_EVENT,
   REALTIME_PRESENCE_LISTEN_EVENTS,
@@ -0,0 +1,95 @@
+export type AdaptiveHeartbeatOptions = {
+  minIntervalMs?: number
+  maxIntervalMs?: number
+  slowRttMs?: number
+  maxMissed?: number
+}
+
+// Consecutive fast replies after which the link is considered stable
+const STABLE_REPLIES = 3
+
+/**
+ * Adjusts the heartbeat interval to the observed connection health.
+ *
+ * Slow replies halve the interval, each run of fast replies lengthens it by half, and missed
+ * replies are tolerated up to `maxMissed` while probing at the shortest interval.
+ *
+ * @example
+ *    let heartbeat = new AdaptiveHeartbeat(25000, { slowRttMs: 1000 })
+ *    heartbeat.reply(1500) // true, intervalMs is now 12500
+ *    heartbeat.miss() // true, tolerated and intervalMs is now 5000
+ */
+export default class AdaptiveHeartbeat {
+  intervalMs: number
+  minIntervalMs: number
+  maxIntervalMs: number
+  slowRttMs: number
+  maxMissed: number
+  missed: number = 0
+  private _fastReplies: number = 0
+
+  /**
+   * @param baseIntervalMs The interval used when connecting, ie, `heartbeatIntervalMs`.
+   * @param options.minIntervalMs The shortest interval. Defaults to a fifth of the base interval.
+   * @param options.maxIntervalMs The longest interval. Defaults to twice the base interval.
+   * @param options.slowRttMs The round-trip time from which a reply is considered slow. Defaults to 2000.
+   * @param options.maxMissed The number of consecutive missed replies tolerated before the connection is closed. Defaults to 2.
+   */
+  constructor(
+    public baseIntervalMs: number,
+    options: AdaptiveHeartbeatOptions = {}
+  ) {
+    this.minIntervalMs = options.minIntervalMs ?? Math.floor(baseIntervalMs / 5)
+    this.maxIntervalMs = options.maxIntervalMs ?? baseIntervalMs * 2
+    this.slowRttMs = options.slowRttMs ?? 2000
+    this.maxMissed = options.maxMissed ?? 2
+    this.intervalMs = baseIntervalMs
+  }
+
+  /**
+   * Records a reply, returning `true` if the interval changed.
+   */
+  reply(rttMs: number): boolean {
+    this.missed = 0
+
+    if (rttMs >= this.slowRttMs) {
+      this._fastReplies = 0
+      return this._setInterval(this.intervalMs / 2)
+    }
+
+    this._fastReplies++
+    if (this._fastReplies < STABLE_REPLIES) {
+      return false
+    }
+    this._fastReplies = 0
+    return this._setInterval(this.intervalMs * 1.5)
+  }
+
+  /**
+   * Records a missed reply, returning `true` if it is tolerated and `false` once the connection should be closed.
+   */
+  miss(): boolean {
+    this.missed++
+    this._fastReplies = 0
+    if (this.missed > this.maxMissed) {
+      return false
+    }
+    this._setInterval(this.minIntervalMs)
+    return true
+  }
+
+  reset(): void {
+    this.intervalMs = this.baseIntervalMs
+    this.missed = 0
+    this._fastReplies = 0
+  }
+
+  private _setInterval(intervalMs: number): boolean {
+    const next = Math.floor(
+      Math.min(this.maxIntervalMs, Math.max(this.minIntervalMs, intervalMs))
+    )
+    const changed = next !== this.intervalMs
+    this.intervalMs = next
+    return changed
+  }
+}
@@ -0,0 +1,79 @@
+export type BackoffJitter = 'none' | 'full' | 'equal' | 'decorrelated'
+
+export type BackoffOptions = {
+  base?: number
+  factor?: number
+  max?: number
+  jitter?: BackoffJitter
+  maxAttempts?: number
+}
+
+/**
+ * Computes exponential retry delays with jitter, so that clients disconnected together do not retry in lockstep.
+ *
+ * Decorrelated jitter derives each delay from the previous one, so every timer needs its own instance.
+ *
+ * @example
+ *    let backoff = new Backoff({ base: 1000, factor: 2, max: 30000, jitter: 'full' })
+ *    backoff.delay(1) // between 0 and 1000
+ *    backoff.delay(3) // between 0 and 4000
+ */
+export default class Backoff {
+  base: number
+  factor: number
+  max: number
+  jitter: BackoffJitter
+  maxAttempts: number
+
+  private _previous: number
+
+  /**
+   * @param options.base The delay in milliseconds of the first attempt. Defaults to 1000.
+   * @param options.factor The multiplier applied to the delay on each attempt. Defaults to 2.
+   * @param options.max The upper bound of any delay in milliseconds. Defaults to 10000.
+   * @param options.jitter The randomization strategy, one of 'none', 'full', 'equal' or 'decorrelated'. Defaults to 'full'.
+   * @param options.maxAttempts The number of attempts after which retrying stops. Defaults to unlimited.
+   * @param random The random number generator, returning values in [0, 1).
+   */
+  constructor(
+    options: BackoffOptions = {},
+    private random: () => number = Math.random
+  ) {
+    this.base = options.base ?? 1000
+    this.factor = options.factor ?? 2
+    this.max = options.max ?? 10000
+    this.jitter = options.jitter ?? 'full'
+    this.maxAttempts = options.maxAttempts ?? Infinity
+    this._previous = this.base
+  }
+
+  /**
+   * Returns the delay in milliseconds before the given attempt, starting at 1.
+   */
+  delay(tries: number): number {
+    const exponential = Math.min(
+      this.max,
+      this.base * Math.pow(this.factor, Math.max(tries - 1, 0))
+    )
+
+    switch (this.jitter) {
+      case 'full':
+        return Math.floor(this.random() * exponential)
+      case 'equal':
+        return Math.floor(exponential / 2 + (this.random() * exponential) / 2)
+      case 'decorrelated':
+        if (tries <= 1) {
+          this._previous = this.base
+        }
+        this._previous = Math.floor(
+          Math.min(
+            this.max,
+            this.base + this.random() * (this._previous * 3 - this.base)
+          )
+        )
+        return this._previous
+      default:
+        return exponential
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import type { RealtimeChannelSendResult } from '../RealtimeChannel'
+import type { RealtimeBroadcastMessage } from './broadcast'
+import { RealtimeError } from './errors'
+
+export type BroadcastBatchingOptions = {
+  windowMs?: number
+  maxMessages?: number
+}
+
+type Pending = {
+  message: RealtimeBroadcastMessage
+  timeout?: number
+  enqueuedAt: number
+  resolve: (result: RealtimeChannelSendResult) => void
+}
+
+/**
+ * Coalesces the messages enqueued within a short window into a single batch.
+ *
+ * @example
+ *    let batcher = new BroadcastBatcher((messages) => client.broadcastBatch(messages), { windowMs: 10 })
+ *    batcher.enqueue({ topic: 'room', event: 'a' })
+ *    batcher.enqueue({ topic: 'lobby', event: 'b' }) // both are sent 10ms later in one request
+ */
+export default class BroadcastBatcher {
+  windowMs: number
+  maxMessages: number
+
+  private _pending: Pending[] = []
+  private _timer: ReturnType<typeof setTimeout> | undefined = undefined
+
+  /**
+   * @param sendBatch Sends a batch within `timeout`, resolving with one result per message.
+   * @param options.windowMs How long the first message of a batch waits for others in milliseconds. Defaults to 10.
+   * @param options.maxMessages The batch size that triggers an immediate send. Defaults to 100.
+   */
+  constructor(
+    private sendBatch: (
+      messages: RealtimeBroadcastMessage[],
+      timeout?: number
+    ) => Promise<RealtimeChannelSendResult[]>,
+    options: BroadcastBatchingOptions = {}
+  ) {
+    this.windowMs = options.windowMs ?? 10
+    this.maxMessages = options.maxMessages ?? 100
+  }
+
+  /**
+   * Adds a message to the next batch, which is sent with the longest timeout of its messages.
+   */
+  enqueue(
+    message: RealtimeBroadcastMessage,
+    timeout?: number
+  ): Promise<RealtimeChannelSendResult> {
+    return new Promise((resolve) => {
+      this._pending.push({ message, timeout, enqueuedAt: Date.now(), resolve })
+      if (this._pending.length >= this.maxMessages) {
+        this.flush()
+      } else if (this._timer === undefined) {
+        this._timer = setTimeout(() => this.flush(), this.windowMs)
+      }
+    })
+  }
+
+  /**
+   * Sends the pending messages right away.
+   *
+   * Every message of the batch fails with the error when sending it throws.
+   */
+  async flush(): Promise<void> {
+    clearTimeout(this._timer)
+    this._timer = undefined
+    const batch = this._pending.splice(0)
+    if (batch.length === 0) {
+      return
+    }
+
+    const timeouts = batch
+      .map(({ timeout }) => timeout)
+      .filter((timeout): timeout is number => timeout !== undefined)
+    let results: RealtimeChannelSendResult[]
+    try {
+      results = await this.sendBatch(
+        batch.map(({ message }) => message),
+        timeouts.length > 0 ? Math.max(...timeouts) : undefined
+      )
+    } catch (error) {
+      const failure: RealtimeChannelSendResult = {
+        status: 'error',
+        response: null,
+        via: 'http',
+        latencyMs: 0,
+        ref: null,
+        error:
+          error instanceof RealtimeError
+            ? error
+            : new RealtimeError(
+                `broadcast batch failed: ${(error as Error)?.message ?? error}`,
+                { cause: error }
+              ),
+      }
+      results = batch.map(() => failure)
+    }
+    batch.forEach(({ enqueuedAt, resolve }, i) =>
+      resolve({ ...results[i], latencyMs: Date.now() - enqueuedAt })
+    )
+  }
+}
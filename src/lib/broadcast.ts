@@ -0,0 +1,227 @@
+import type { RealtimeChannelSendResult } from '../RealtimeChannel'
+import type Backoff from './backoff'
+import {
+  RealtimeAuthError,
+  RealtimeError,
+  RealtimeTimeoutError,
+  RealtimeTransportError,
+  errorFromReply,
+} from './errors'
+
+type Fetch = typeof fetch
+
+export type RealtimeBroadcastMessage = {
+  /** The channel topic, with or without the `realtime:` prefix. */
+  topic: string
+  event: string
+  payload?: any
+  private?: boolean
+}
+
+export type BroadcastRequest = {
+  fetch: Fetch
+  url: string
+  headers: { [key: string]: string }
+  timeout: number
+  /**
+   * Retries transient failures, up to `maxAttempts` attempts in total. A `Retry-After` reply delays
+   * the next attempt by at least that long, up to `max`.
+   */
+  backoff?: Backoff
+}
+
+/**
+ * Broadcasts messages with a single request, resolving with one result per message.
+ *
+ * Binary payloads cannot be sent over REST and fail without being sent.
+ */
+export async function broadcastMessages(
+  messages: RealtimeBroadcastMessage[],
+  request: BroadcastRequest
+): Promise<RealtimeChannelSendResult[]> {
+  const sendable = messages.filter((message) => !isBinary(message))
+  const result =
+    sendable.length > 0 ? await postBroadcast(sendable, request) : null
+
+  return messages.map((message) =>
+    isBinary(message)
+      ? {
+          status: 'error',
+          response: null,
+          via: 'http',
+          latencyMs: 0,
+          ref: null,
+          error: new RealtimeError(
+            'binary payloads can only be sent over a joined channel',
+            { code: 'unsupported' }
+          ),
+        }
+      : { ...result! }
+  )
+}
+
+/**
+ * Posts messages to the REST broadcast endpoint, which accepts or rejects them as a whole.
+ */
+async function postBroadcast(
+  messages: RealtimeBroadcastMessage[],
+  request: BroadcastRequest
+): Promise<RealtimeChannelSendResult> {
+  const { backoff } = request
+  const maxAttempts = backoff?.maxAttempts ?? 1
+  const idempotent = 'Idempotency-Key' in request.headers
+  const startedAt = Date.now()
+
+  for (let attempt = 1; ; attempt++) {
+    const [result, retryAfterMs] = await postOnce(messages, request)
+    const done = (): RealtimeChannelSendResult => ({
+      ...result,
+      latencyMs: Date.now() - startedAt,
+      attempts: attempt,
+    })
+    if (attempt >= maxAttempts || !isRetryable(result, idempotent)) {
+      return done()
+    }
+    const delay = Math.max(
+      backoff!.delay(attempt),
+      Math.min(retryAfterMs ?? 0, backoff!.max)
+    )
+    await new Promise((resolve) => setTimeout(resolve, delay))
+  }
+}
+
+/**
+ * Returns `true` for failures that are safe to retry.
+ *
+ * 408, 425, 429 and 503 replies mean the messages were not broadcast. Network errors, timeouts and
+ * other 5xx replies leave it unknown, so they are only retried with an idempotency key.
+ */
+function isRetryable(
+  result: RealtimeChannelSendResult,
+  idempotent: boolean
+): boolean {
+  if (result.status === 'timed out') {
+    return idempotent
+  }
+  if (result.httpStatus === undefined) {
+    return idempotent && result.error?.code === 'transport'
+  }
+  if ([408, 425, 429, 503].includes(result.httpStatus)) {
+    return true
+  }
+  return idempotent && result.httpStatus >= 500
+}
+
+/**
+ * Parses a `Retry-After` header, either in seconds or as a date, into milliseconds.
+ */
+function retryAfter(response: Response): number | null {
+  const value = response.headers?.get?.('Retry-After')
+  if (!value) {
+    return null
+  }
+  const seconds = Number(value)
+  if (!isNaN(seconds)) {
+    return Math.max(seconds * 1000, 0)
+  }
+  const date = Date.parse(value)
+  return isNaN(date) ? null : Math.max(date - Date.now(), 0)
+}
+
+function isBinary(message: RealtimeBroadcastMessage): boolean {
+  return (
+    message.payload instanceof ArrayBuffer ||
+    message.payload instanceof Uint8Array
+  )
+}
+
+async function postOnce(
+  messages: RealtimeBroadcastMessage[],
+  request: BroadcastRequest
+): Promise<[RealtimeChannelSendResult, number | null]> {
+  const { fetch, url, headers, timeout } = request
+  const startedAt = Date.now()
+  const result = (
+    status: RealtimeChannelSendResult['status'],
+    fields: Partial<RealtimeChannelSendResult> = {}
+  ): RealtimeChannelSendResult => ({
+    status,
+    response: null,
+    via: 'http',
+    latencyMs: Date.now() - startedAt,
+    ref: null,
+    ...fields,
+  })
+
+  const controller = new AbortController()
+  const id = setTimeout(() => controller.abort(), timeout)
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        messages: messages.map(({ topic, event, payload, private: p }) => ({
+          topic: topic.replace(/^realtime:/i, ''),
+          event,
+          payload,
+          private: p ?? false,
+        })),
+      }),
+      signal: controller.signal,
+    })
+
+    if (response.ok) {
+      await response.body?.cancel()
+      return [result('ok', { httpStatus: response.status }), null]
+    }
+    const body = await readResponseBody(response)
+    const error =
+      response.status === 401 || response.status === 403
+        ? new RealtimeAuthError(`broadcast rejected: ${response.status}`, {
+            reply: body,
+          })
+        : errorFromReply(body ?? `broadcast failed: ${response.status}`)
+    return [
+      result('error', { response: body, httpStatus: response.status, error }),
+      retryAfter(response),
+    ]
+  } catch (error: any) {
+    if (error.name === 'AbortError') {
+      return [
+        result('timed out', {
+          error: new RealtimeTimeoutError(
+            `broadcast timed out after ${timeout}ms`
+          ),
+        }),
+        null,
+      ]
+    }
+    return [
+      result('error', {
+        error: new RealtimeTransportError(
+          `broadcast failed: ${error?.message ?? error}`,
+          { cause: error }
+        ),
+      }),
+      null,
+    ]
+  } finally {
+    clearTimeout(id)
+  }
+}
+
+/**
+ * Reads an error response as JSON, falling back to its text.
+ */
+async function readResponseBody(response: Response): Promise<any> {
+  try {
+    const text = await response.text()
+    try {
+      return JSON.parse(text)
+    } catch {
+      return text || null
+    }
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,24 @@
+import type { RealtimeMessage } from '../RealtimeClient'
+
+/**
+ * Converts messages to and from the wire format used on the socket.
+ *
+ * Both methods are callback based so that codecs are free to encode or
+ * decode asynchronously.
+ */
+export interface RealtimeCodec {
+  /** Name of the codec, used when logging. */
+  readonly name: string
+  /** The `binaryType` the socket should use to receive binary frames. */
+  readonly binaryType: 'arraybuffer' | 'blob'
+  /** The protocol version sent to the server as the `vsn` param. Defaults to `1.0.0`. */
+  readonly vsn?: string
+  encode(
+    msg: RealtimeMessage,
+    callback: (encoded: string | ArrayBuffer) => void
+  ): void
+  decode(
+    rawPayload: string | ArrayBuffer,
+    callback: (msg: RealtimeMessage) => void
+  ): void
+}
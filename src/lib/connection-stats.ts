@@ -0,0 +1,79 @@
+export type RealtimeConnectionStats = {
+  samples: number
+  missed: number
+  lastRttMs: number | null
+  minRttMs: number | null
+  avgRttMs: number | null
+  p95RttMs: number | null
+  jitterMs: number | null
+}
+
+/**
+ * Keeps a rolling window of heartbeat outcomes, either a round-trip time or a miss.
+ *
+ * @example
+ *    let stats = new ConnectionStats(3)
+ *    stats.record(40)
+ *    stats.record(60)
+ *    stats.miss()
+ *    stats.record(50) // drops the 40ms sample
+ *    stats.snapshot() // { samples: 2, missed: 1, avgRttMs: 55, ... }
+ */
+export default class ConnectionStats {
+  private _window: (number | null)[] = []
+
+  constructor(public windowSize: number = 20) {}
+
+  record(rttMs: number): void {
+    this._push(rttMs)
+  }
+
+  miss(): void {
+    this._push(null)
+  }
+
+  reset(): void {
+    this._window = []
+  }
+
+  snapshot(): RealtimeConnectionStats {
+    const rtts = this._window.filter((rtt): rtt is number => rtt !== null)
+    const missed = this._window.length - rtts.length
+
+    if (rtts.length === 0) {
+      return {
+        samples: 0,
+        missed,
+        lastRttMs: null,
+        minRttMs: null,
+        avgRttMs: null,
+        p95RttMs: null,
+        jitterMs: null,
+      }
+    }
+
+    const sorted = [...rtts].sort((a, b) => a - b)
+    const sum = rtts.reduce((total, rtt) => total + rtt, 0)
+    let variation = 0
+    for (let i = 1; i < rtts.length; i++) {
+      variation += Math.abs(rtts[i] - rtts[i - 1])
+    }
+
+    return {
+      samples: rtts.length,
+      missed,
+      lastRttMs: rtts[rtts.length - 1],
+      minRttMs: sorted[0],
+      avgRttMs: sum / rtts.length,
+      p95RttMs: sorted[Math.ceil(sorted.length * 0.95) - 1],
+      jitterMs: rtts.length > 1 ? variation / (rtts.length - 1) : 0,
+    }
+  }
+
+  private _push(outcome: number | null): void {
+    this._window.push(outcome)
+    if (this._window.length > this.windowSize) {
+      this._window.shift()
+    }
+  }
+}
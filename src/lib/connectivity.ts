@@ -0,0 +1,101 @@
+export type ConnectivityOptions = {
+  hiddenTimeoutMs?: number
+}
+
+export type ConnectivityCallbacks = {
+  onOnline: () => void
+  onOffline: () => void
+  onHiddenIdle: () => void
+  onVisible: () => void
+}
+
+/**
+ * Watches the browser's online/offline events and page visibility.
+ *
+ * Does nothing outside of browsers, where `window` and `document` are not available.
+ *
+ * @example
+ *    let monitor = new ConnectivityMonitor(callbacks, { hiddenTimeoutMs: 60000 })
+ *    monitor.start() // calls onHiddenIdle once the page has been hidden for a minute
+ *    monitor.stop()
+ */
+export default class ConnectivityMonitor {
+  hiddenTimeoutMs: number | null
+  private _started: boolean = false
+  private _hiddenTimer: ReturnType<typeof setTimeout> | undefined = undefined
+
+  constructor(
+    private callbacks: ConnectivityCallbacks,
+    options: ConnectivityOptions = {}
+  ) {
+    this.hiddenTimeoutMs = options.hiddenTimeoutMs ?? null
+  }
+
+  /**
+   * Returns `false` only when the browser reports being offline.
+   */
+  isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine !== false
+  }
+
+  start(): void {
+    if (this._started || !this._isSupported()) {
+      return
+    }
+    this._started = true
+    window.addEventListener('online', this._onOnline)
+    window.addEventListener('offline', this._onOffline)
+    document.addEventListener('visibilitychange', this._onVisibilityChange)
+    if (document.visibilityState === 'hidden') {
+      this._scheduleHiddenIdle()
+    }
+  }
+
+  stop(): void {
+    if (!this._started) {
+      return
+    }
+    this._started = false
+    window.removeEventListener('online', this._onOnline)
+    window.removeEventListener('offline', this._onOffline)
+    document.removeEventListener('visibilitychange', this._onVisibilityChange)
+    this._clearHiddenIdle()
+  }
+
+  private _onOnline = () => this.callbacks.onOnline()
+
+  private _onOffline = () => this.callbacks.onOffline()
+
+  private _onVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') {
+      this._scheduleHiddenIdle()
+    } else {
+      this._clearHiddenIdle()
+      this.callbacks.onVisible()
+    }
+  }
+
+  private _scheduleHiddenIdle(): void {
+    if (this.hiddenTimeoutMs === null) {
+      return
+    }
+    this._clearHiddenIdle()
+    this._hiddenTimer = setTimeout(
+      () => this.callbacks.onHiddenIdle(),
+      this.hiddenTimeoutMs
+    )
+  }
+
+  private _clearHiddenIdle(): void {
+    clearTimeout(this._hiddenTimer)
+    this._hiddenTimer = undefined
+  }
+
+  private _isSupported(): boolean {
+    return (
+      typeof window !== 'undefined' &&
+      typeof window.addEventListener === 'function' &&
+      typeof document !== 'undefined'
+    )
+  }
+}
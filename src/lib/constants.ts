@@ -2,13 +2,19 @@ import { version } from './version'
 
 export const DEFAULT_VERSION = `realtime-js/${version}`
 export const VSN: string = '1.0.0'
+export const BINARY_VSN: string = '2.0.0'
 
 export const VERSION = version
 
 export const DEFAULT_TIMEOUT = 10000
+export const LONGPOLL_TIMEOUT = 20000
 
 export const WS_CLOSE_NORMAL = 1000
+export const WS_CLOSE_TIMEOUT = 1005
+export const WS_CLOSE_POLICY_VIOLATION = 1008
+export const WS_CLOSE_UNEXPECTED = 1011
 export const MAX_PUSH_BUFFER_SIZE = 100
+export const DEFAULT_COMPRESSION_THRESHOLD = 1024
 
 export enum SOCKET_STATES {
   connecting = 0,
@@ -32,10 +38,12 @@ export enum CHANNEL_EVENTS {
   reply = 'phx_reply',
   leave = 'phx_leave',
   access_token = 'access_token',
+  postgres_changes_update = 'postgres_changes_update',
 }
 
 export enum TRANSPORTS {
   websocket = 'websocket',
+  longpoll = 'longpoll',
 }
 
 export enum CONNECTION_STATE {
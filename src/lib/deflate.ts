@@ -0,0 +1,506 @@
+/**
+ * Helpers to compress and decompress broadcast payloads in the zlib format (RFC 1950/1951).
+ *
+ * `compress` uses `CompressionStream` where available and falls back to `deflate`,
+ * a small pure-JS encoder using LZ77 with fixed Huffman codes. `inflate` handles any
+ * valid zlib stream and is synchronous so incoming messages keep their order.
+ */
+
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67,
+  83, 99, 115, 131, 163, 195, 227, 258,
+]
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5,
+  5, 5, 0,
+]
+const DIST_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769,
+  1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+]
+const DIST_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11,
+  11, 12, 12, 13, 13,
+]
+const CODE_LENGTH_ORDER = [
+  16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15,
+]
+
+const WINDOW_SIZE = 32768
+const MIN_MATCH = 3
+const MAX_MATCH = 258
+const MAX_CHAIN = 64
+const HASH_BITS = 15
+const HASH_SIZE = 1 << HASH_BITS
+
+// Lookup table indexed by the next `maxLength` input bits, entries are `symbol << 4 | length`
+type Huffman = { table: Uint32Array; maxLength: number }
+
+/**
+ * Compresses data, preferring the platform `CompressionStream`.
+ */
+export async function compress(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof CompressionStream !== 'undefined') {
+    try {
+      return await _compressWithStream(data)
+    } catch {
+      // fall through to the pure-JS encoder
+    }
+  }
+
+  return deflate(data)
+}
+
+/**
+ * Compresses data into a zlib stream.
+ */
+export function deflate(data: Uint8Array): Uint8Array {
+  const writer = new BitWriter(Math.ceil(data.length / 2) + 64)
+  writer.bytes(0x78, 0x01)
+  writer.bits(1, 1) // BFINAL
+  writer.bits(1, 2) // BTYPE fixed Huffman
+
+  const head = new Int32Array(HASH_SIZE).fill(-1)
+  const prev = new Int32Array(WINDOW_SIZE)
+  const hash = (i: number) =>
+    ((data[i] << 10) ^ (data[i + 1] << 5) ^ data[i + 2]) & (HASH_SIZE - 1)
+  const insert = (i: number) => {
+    if (i + MIN_MATCH > data.length) {
+      return
+    }
+    const h = hash(i)
+    prev[i % WINDOW_SIZE] = head[h]
+    head[h] = i
+  }
+
+  let i = 0
+  while (i < data.length) {
+    let bestLength = 0
+    let bestDistance = 0
+
+    if (i + MIN_MATCH <= data.length) {
+      let candidate = head[hash(i)]
+      let chain = MAX_CHAIN
+      const maxLength = Math.min(MAX_MATCH, data.length - i)
+      while (candidate >= 0 && i - candidate <= WINDOW_SIZE && chain-- > 0) {
+        let length = 0
+        while (
+          length < maxLength &&
+          data[candidate + length] === data[i + length]
+        ) {
+          length++
+        }
+        if (length > bestLength) {
+          bestLength = length
+          bestDistance = i - candidate
+          if (length === maxLength) {
+            break
+          }
+        }
+        const next = prev[candidate % WINDOW_SIZE]
+        if (next >= candidate) {
+          break
+        }
+        candidate = next
+      }
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      const lengthIndex = _baseIndex(LENGTH_BASE, bestLength)
+      _writeLiteralLength(writer, 257 + lengthIndex)
+      writer.bits(
+        bestLength - LENGTH_BASE[lengthIndex],
+        LENGTH_EXTRA[lengthIndex]
+      )
+      const distIndex = _baseIndex(DIST_BASE, bestDistance)
+      writer.huffman(distIndex, 5)
+      writer.bits(bestDistance - DIST_BASE[distIndex], DIST_EXTRA[distIndex])
+      for (let j = 0; j < bestLength; j++) {
+        insert(i + j)
+      }
+      i += bestLength
+    } else {
+      _writeLiteralLength(writer, data[i])
+      insert(i)
+      i++
+    }
+  }
+
+  _writeLiteralLength(writer, 256)
+  writer.align()
+  const checksum = _adler32(data)
+  writer.bytes(
+    (checksum >>> 24) & 0xff,
+    (checksum >>> 16) & 0xff,
+    (checksum >>> 8) & 0xff,
+    checksum & 0xff
+  )
+
+  return writer.result()
+}
+
+/**
+ * Decompresses a zlib stream.
+ */
+export function inflate(data: Uint8Array): Uint8Array {
+  if (
+    data.length < 6 ||
+    (data[0] & 0x0f) !== 8 ||
+    (data[0] * 256 + data[1]) % 31
+  ) {
+    throw new Error('inflate: invalid zlib header')
+  }
+  if (data[1] & 0x20) {
+    throw new Error('inflate: preset dictionaries are not supported')
+  }
+
+  const reader = new BitReader(data, 2)
+  const output = new ByteBuffer(data.length * 4)
+  let final = 0
+
+  while (!final) {
+    final = reader.bits(1)
+    const type = reader.bits(2)
+
+    if (type === 0) {
+      _inflateStored(reader, output)
+    } else if (type === 1) {
+      _inflateBlock(reader, output, FIXED_LENGTH_CODES, FIXED_DIST_CODES)
+    } else if (type === 2) {
+      const [lengthCodes, distCodes] = _readDynamicCodes(reader)
+      _inflateBlock(reader, output, lengthCodes, distCodes)
+    } else {
+      throw new Error('inflate: invalid block type')
+    }
+  }
+
+  const result = output.result()
+  const offset = reader.byteAlign()
+  const expected =
+    ((data[offset] << 24) |
+      (data[offset + 1] << 16) |
+      (data[offset + 2] << 8) |
+      data[offset + 3]) >>>
+    0
+  if (expected !== _adler32(result)) {
+    throw new Error('inflate: checksum mismatch')
+  }
+
+  return result
+}
+
+class BitWriter {
+  buffer: ByteBuffer
+  bitBuffer = 0
+  bitCount = 0
+
+  constructor(capacity: number) {
+    this.buffer = new ByteBuffer(capacity)
+  }
+
+  bytes(...values: number[]) {
+    values.forEach((value) => this.buffer.push(value))
+  }
+
+  bits(value: number, count: number) {
+    this.bitBuffer |= value << this.bitCount
+    this.bitCount += count
+    while (this.bitCount >= 8) {
+      this.buffer.push(this.bitBuffer & 0xff)
+      this.bitBuffer >>>= 8
+      this.bitCount -= 8
+    }
+  }
+
+  // Huffman codes are packed starting with their most significant bit
+  huffman(code: number, length: number) {
+    let reversed = 0
+    for (let i = 0; i < length; i++) {
+      reversed = (reversed << 1) | ((code >>> i) & 1)
+    }
+    this.bits(reversed, length)
+  }
+
+  align() {
+    if (this.bitCount > 0) {
+      this.buffer.push(this.bitBuffer & 0xff)
+      this.bitBuffer = 0
+      this.bitCount = 0
+    }
+  }
+
+  result() {
+    return this.buffer.result()
+  }
+}
+
+class BitReader {
+  bitBuffer = 0
+  bitCount = 0
+
+  constructor(public data: Uint8Array, public offset: number) {}
+
+  bits(count: number): number {
+    this.fill(count)
+    if (this.bitCount < count) {
+      throw new Error('inflate: unexpected end of data')
+    }
+    const value = this.bitBuffer & ((1 << count) - 1)
+    this.skip(count)
+    return value
+  }
+
+  // Loads up to `count` bits without failing at the end of the data
+  fill(count: number) {
+    while (this.bitCount < count && this.offset < this.data.length) {
+      this.bitBuffer |= this.data[this.offset++] << this.bitCount
+      this.bitCount += 8
+    }
+  }
+
+  skip(count: number) {
+    this.bitBuffer >>>= count
+    this.bitCount -= count
+  }
+
+  // Drops the remaining bits of the current byte and returns the next byte offset
+  byteAlign(): number {
+    this.offset -= this.bitCount >>> 3
+    this.bitBuffer = 0
+    this.bitCount = 0
+    return this.offset
+  }
+}
+
+class ByteBuffer {
+  data: Uint8Array
+  length = 0
+
+  constructor(capacity: number) {
+    this.data = new Uint8Array(Math.max(capacity, 64))
+  }
+
+  push(value: number) {
+    if (this.length === this.data.length) {
+      const data = new Uint8Array(this.data.length * 2)
+      data.set(this.data)
+      this.data = data
+    }
+    this.data[this.length++] = value
+  }
+
+  result(): Uint8Array {
+    return this.data.slice(0, this.length)
+  }
+}
+
+function _buildHuffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(16)
+  const nextCode = new Uint16Array(16)
+  let maxLength = 0
+
+  for (let i = 0; i < lengths.length; i++) {
+    counts[lengths[i]]++
+    maxLength = Math.max(maxLength, lengths[i])
+  }
+  counts[0] = 0
+  for (let i = 1; i < 16; i++) {
+    nextCode[i] = (nextCode[i - 1] + counts[i - 1]) << 1
+  }
+
+  const table = new Uint32Array(1 << maxLength)
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    const length = lengths[symbol]
+    if (!length) {
+      continue
+    }
+    const code = nextCode[length]++
+    let reversed = 0
+    for (let i = 0; i < length; i++) {
+      reversed = (reversed << 1) | ((code >>> i) & 1)
+    }
+    for (let i = reversed; i < table.length; i += 1 << length) {
+      table[i] = (symbol << 4) | length
+    }
+  }
+
+  return { table, maxLength }
+}
+
+function _decodeSymbol(reader: BitReader, huffman: Huffman): number {
+  reader.fill(huffman.maxLength)
+  const entry =
+    huffman.table[reader.bitBuffer & ((1 << huffman.maxLength) - 1)] ?? 0
+  const length = entry & 0x0f
+  if (!length) {
+    throw new Error('inflate: invalid Huffman code')
+  }
+  if (length > reader.bitCount) {
+    throw new Error('inflate: unexpected end of data')
+  }
+  reader.skip(length)
+  return entry >>> 4
+}
+
+const FIXED_LENGTH_CODES = _buildHuffman(
+  Array.from({ length: 288 }, (_, i) =>
+    i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8
+  )
+)
+const FIXED_DIST_CODES = _buildHuffman(new Array(30).fill(5))
+
+function _readDynamicCodes(reader: BitReader): [Huffman, Huffman] {
+  const literalCount = reader.bits(5) + 257
+  const distCount = reader.bits(5) + 1
+  const codeLengthCount = reader.bits(4) + 4
+
+  const codeLengths = new Uint8Array(19)
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengths[CODE_LENGTH_ORDER[i]] = reader.bits(3)
+  }
+  const codeLengthCodes = _buildHuffman(codeLengths)
+
+  const lengths = new Uint8Array(literalCount + distCount)
+  let i = 0
+  while (i < lengths.length) {
+    const symbol = _decodeSymbol(reader, codeLengthCodes)
+    if (symbol < 16) {
+      lengths[i++] = symbol
+      continue
+    }
+    let repeat = 0
+    let value = 0
+    if (symbol === 16) {
+      if (i === 0) {
+        throw new Error('inflate: invalid code lengths')
+      }
+      value = lengths[i - 1]
+      repeat = 3 + reader.bits(2)
+    } else if (symbol === 17) {
+      repeat = 3 + reader.bits(3)
+    } else {
+      repeat = 11 + reader.bits(7)
+    }
+    if (i + repeat > lengths.length) {
+      throw new Error('inflate: invalid code lengths')
+    }
+    lengths.fill(value, i, i + repeat)
+    i += repeat
+  }
+
+  return [
+    _buildHuffman(lengths.subarray(0, literalCount)),
+    _buildHuffman(lengths.subarray(literalCount)),
+  ]
+}
+
+function _inflateStored(reader: BitReader, output: ByteBuffer) {
+  const offset = reader.byteAlign()
+  const data = reader.data
+  if (offset + 4 > data.length) {
+    throw new Error('inflate: unexpected end of data')
+  }
+  const length = data[offset] | (data[offset + 1] << 8)
+  const nlength = data[offset + 2] | (data[offset + 3] << 8)
+  if (length !== (~nlength & 0xffff)) {
+    throw new Error('inflate: invalid stored block length')
+  }
+  if (offset + 4 + length > data.length) {
+    throw new Error('inflate: unexpected end of data')
+  }
+  for (let i = 0; i < length; i++) {
+    output.push(data[offset + 4 + i])
+  }
+  reader.offset = offset + 4 + length
+}
+
+function _inflateBlock(
+  reader: BitReader,
+  output: ByteBuffer,
+  lengthCodes: Huffman,
+  distCodes: Huffman
+) {
+  while (true) {
+    const symbol = _decodeSymbol(reader, lengthCodes)
+    if (symbol < 256) {
+      output.push(symbol)
+    } else if (symbol === 256) {
+      return
+    } else {
+      const lengthIndex = symbol - 257
+      if (lengthIndex >= LENGTH_BASE.length) {
+        throw new Error('inflate: invalid length symbol')
+      }
+      const length =
+        LENGTH_BASE[lengthIndex] + reader.bits(LENGTH_EXTRA[lengthIndex])
+      const distIndex = _decodeSymbol(reader, distCodes)
+      if (distIndex >= DIST_BASE.length) {
+        throw new Error('inflate: invalid distance symbol')
+      }
+      const distance = DIST_BASE[distIndex] + reader.bits(DIST_EXTRA[distIndex])
+      if (distance > output.length) {
+        throw new Error('inflate: distance too far back')
+      }
+      for (let i = 0; i < length; i++) {
+        output.push(output.data[output.length - distance])
+      }
+    }
+  }
+}
+
+function _writeLiteralLength(writer: BitWriter, symbol: number) {
+  if (symbol < 144) {
+    writer.huffman(0x30 + symbol, 8)
+  } else if (symbol < 256) {
+    writer.huffman(0x190 + symbol - 144, 9)
+  } else if (symbol < 280) {
+    writer.huffman(symbol - 256, 7)
+  } else {
+    writer.huffman(0xc0 + symbol - 280, 8)
+  }
+}
+
+function _baseIndex(bases: number[], value: number): number {
+  let index = bases.length - 1
+  while (bases[index] > value) {
+    index--
+  }
+  return index
+}
+
+function _adler32(data: Uint8Array): number {
+  let a = 1
+  let b = 0
+  for (let i = 0; i < data.length; i++) {
+    a = (a + data[i]) % 65521
+    b = (b + a) % 65521
+  }
+  return ((b << 16) | a) >>> 0
+}
+
+async function _compressWithStream(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new CompressionStream('deflate')
+  const writer = stream.writable.getWriter()
+  writer.write(data).catch(() => {})
+  writer.close().catch(() => {})
+
+  const reader = stream.readable.getReader()
+  const chunks: Uint8Array[] = []
+  let length = 0
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) {
+      break
+    }
+    chunks.push(value)
+    length += value.length
+  }
+
+  const result = new Uint8Array(length)
+  let offset = 0
+  chunks.forEach((chunk) => {
+    result.set(chunk, offset)
+    offset += chunk.length
+  })
+  return result
+}
@@ -0,0 +1,108 @@
+export type RealtimeErrorCode =
+  | 'channel_error'
+  | 'invalid_payload'
+  | 'timeout'
+  | 'unauthorized'
+  | 'binding_mismatch'
+  | 'transport'
+  | 'closed'
+  | 'unsupported'
+  | 'buffer_overflow'
+  | 'rate_limited'
+  | 'config_mismatch'
+
+export type RealtimeErrorOptions = {
+  code?: RealtimeErrorCode
+  reply?: any
+  cause?: unknown
+}
+
+/**
+ * Base class of the errors thrown, rejected or reported by the client, channels and pushes.
+ *
+ * `code` is meant for programmatic handling, and `reply` holds the server's reply the error was built from, if any.
+ *
+ * @example
+ *    try {
+ *      await channel.subscribeAsync()
+ *    } catch (error) {
+ *      if (error instanceof RealtimeAuthError) refreshSession()
+ *    }
+ */
+export class RealtimeError extends Error {
+  name = 'RealtimeError'
+  code: RealtimeErrorCode
+  reply?: any
+  cause?: unknown
+
+  constructor(message: string, options: RealtimeErrorOptions = {}) {
+    super(message)
+    this.code = options.code ?? 'channel_error'
+    this.reply = options.reply
+    this.cause = options.cause
+  }
+}
+
+type SubclassOptions = Omit<RealtimeErrorOptions, 'code'>
+
+/** The server did not reply in time. */
+export class RealtimeTimeoutError extends RealtimeError {
+  name = 'RealtimeTimeoutError'
+
+  constructor(message: string, options: SubclassOptions = {}) {
+    super(message, { ...options, code: 'timeout' })
+  }
+}
+
+/** The API key or access token is missing, invalid or lacks the permissions required. */
+export class RealtimeAuthError extends RealtimeError {
+  name = 'RealtimeAuthError'
+
+  constructor(message: string, options: SubclassOptions = {}) {
+    super(message, { ...options, code: 'unauthorized' })
+  }
+}
+
+/** The postgres changes the server subscribed to differ from the channel's bindings. */
+export class RealtimeBindingMismatchError extends RealtimeError {
+  name = 'RealtimeBindingMismatchError'
+
+  constructor(message: string, options: SubclassOptions = {}) {
+    super(message, { ...options, code: 'binding_mismatch' })
+  }
+}
+
+/** The connection could not be opened, failed or closed. */
+export class RealtimeTransportError extends RealtimeError {
+  name = 'RealtimeTransportError'
+
+  constructor(message: string, options: SubclassOptions = {}) {
+    super(message, { ...options, code: 'transport' })
+  }
+}
+
+const AUTH_REASON = /auth|forbidden|permission|jwt|token/i
+
+const describeValue = (value: any): string =>
+  typeof value === 'string'
+    ? value
+    : typeof value?.message === 'string'
+    ? value.message
+    : JSON.stringify(value)
+
+/**
+ * Builds the error for an `error` reply from the server, telling authorization failures apart.
+ *
+ * @internal
+ */
+export function errorFromReply(response?: any): RealtimeError {
+  const message =
+    (typeof response === 'string'
+      ? response
+      : Object.values(response ?? {})
+          .map(describeValue)
+          .join(', ')) || 'error'
+  return AUTH_REASON.test(message)
+    ? new RealtimeAuthError(message, { reply: response })
+    : new RealtimeError(message, { reply: response })
+}
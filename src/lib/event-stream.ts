@@ -0,0 +1,128 @@
+import { RealtimeError } from './errors'
+
+export type EventStreamOverflow = 'drop-oldest' | 'drop-newest' | 'error'
+
+export type EventStreamOptions = {
+  bufferSize?: number
+  overflow?: EventStreamOverflow
+}
+
+/**
+ * An async iterator fed by pushed values, buffering at most `bufferSize` values the consumer has not read yet.
+ *
+ * Values buffered before the stream ends are still delivered; the iterator completes once they are read.
+ *
+ * @example
+ *    let stream = new EventStream({ bufferSize: 2, overflow: 'drop-oldest' })
+ *    stream.push(1)
+ *    stream.push(2)
+ *    stream.push(3) // drops 1
+ *    stream.end()
+ *    for await (const value of stream) {} // 2, 3
+ */
+export default class EventStream<T> implements AsyncIterableIterator<T> {
+  bufferSize: number
+  overflow: EventStreamOverflow
+  dropped: number = 0
+
+  private _buffer: T[] = []
+  private _waiters: ((result: IteratorResult<T>) => void)[] = []
+  private _error: Error | null = null
+  private _ended: boolean = false
+
+  /**
+   * @param options.bufferSize The number of unread values kept before overflowing. Defaults to 100.
+   * @param options.overflow What to do with a value pushed to a full buffer: 'drop-oldest' evicts the oldest unread value, 'drop-newest' discards the pushed value and 'error' fails the stream. Defaults to 'drop-oldest'.
+   * @param onEnd Called once when the stream ends, fails or is returned by the consumer.
+   */
+  constructor(
+    options: EventStreamOptions = {},
+    private onEnd: () => void = () => {}
+  ) {
+    this.bufferSize = options.bufferSize ?? 100
+    this.overflow = options.overflow ?? 'drop-oldest'
+  }
+
+  push(value: T): void {
+    if (this._ended) {
+      return
+    }
+    const waiter = this._waiters.shift()
+    if (waiter) {
+      waiter({ value, done: false })
+      return
+    }
+    if (this._buffer.length >= this.bufferSize) {
+      switch (this.overflow) {
+        case 'drop-newest':
+          this.dropped++
+          return
+        case 'error':
+          this._error = new RealtimeError(
+            `stream buffer overflowed after ${this.bufferSize} unread events`,
+            { code: 'buffer_overflow' }
+          )
+          this._finish()
+          return
+        default:
+          this._buffer.shift()
+          this.dropped++
+      }
+    }
+    this._buffer.push(value)
+  }
+
+  /**
+   * Ends the stream once the buffered values have been read.
+   */
+  end(): void {
+    if (this._ended) {
+      return
+    }
+    this._finish()
+    this._waiters
+      .splice(0)
+      .forEach((waiter) => waiter({ value: undefined, done: true }))
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this._buffer.length > 0) {
+      return Promise.resolve({ value: this._buffer.shift()!, done: false })
+    }
+    if (this._error) {
+      const error = this._error
+      this._error = null
+      return Promise.reject(error)
+    }
+    if (this._ended) {
+      return Promise.resolve({ value: undefined, done: true })
+    }
+    return new Promise((resolve) => this._waiters.push(resolve))
+  }
+
+  /**
+   * Called by `for await` when the loop exits early; discards the buffer and ends the stream.
+   */
+  return(): Promise<IteratorResult<T>> {
+    this._buffer = []
+    this._error = null
+    this.end()
+    return Promise.resolve({ value: undefined, done: true })
+  }
+
+  throw(error?: any): Promise<IteratorResult<T>> {
+    this._buffer = []
+    this._error = null
+    this.end()
+    return Promise.reject(error)
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    return this
+  }
+
+  private _finish(): void {
+    this._ended = true
+    this.onEnd()
+  }
+}
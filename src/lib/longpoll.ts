@@ -0,0 +1,204 @@
+// This file draws heavily from https://github.com/phoenixframework/phoenix/blob/main/assets/js/phoenix/longpoll.js
+// License: https://github.com/phoenixframework/phoenix/blob/main/LICENSE.md
+
+import {
+  LONGPOLL_TIMEOUT,
+  SOCKET_STATES,
+  TRANSPORTS,
+  WS_CLOSE_NORMAL,
+  WS_CLOSE_POLICY_VIOLATION,
+  WS_CLOSE_TIMEOUT,
+  WS_CLOSE_UNEXPECTED,
+} from './constants'
+import TransportEventTarget from './transport-events'
+import type { WebSocketLike } from './websocket-factory'
+
+type Fetch = typeof fetch
+
+export type LongPollOptions = {
+  fetch?: Fetch
+  timeout?: number
+}
+
+type PollResponse = {
+  status: number
+  token?: string | null
+  messages?: string[]
+}
+
+/**
+ * HTTP long-polling transport implementing the `WebSocketLike` interface.
+ *
+ * Messages are received by repeatedly polling `/longpoll` and sent with a POST
+ * to the same endpoint, identified by the session token handed out by the server.
+ */
+export default class LongPoll
+  extends TransportEventTarget
+  implements WebSocketLike
+{
+  readonly CONNECTING = SOCKET_STATES.connecting
+  readonly OPEN = SOCKET_STATES.open
+  readonly CLOSING = SOCKET_STATES.closing
+  readonly CLOSED = SOCKET_STATES.closed
+  readonly url: string
+  readonly protocol: string = ''
+  readyState: number = SOCKET_STATES.connecting
+  token: string | null = null
+
+  private _fetch: Fetch
+  private _timeout: number
+  private _controllers: Set<AbortController> = new Set()
+
+  /**
+   * Initializes the LongPoll transport and starts polling.
+   *
+   * @param address The WebSocket endpoint, ie, "wss://example.com/socket/websocket?vsn=1.0.0". It is rewritten to its long-poll equivalent.
+   * @param options.fetch The fetch implementation used for requests. Defaults to the global fetch.
+   * @param options.timeout The millisec after which a pending poll or send is aborted.
+   */
+  constructor(address: string | URL, options: LongPollOptions = {}) {
+    super()
+    this.url = LongPoll.pollEndpoint(address.toString())
+    this._fetch = options.fetch ?? ((...args) => fetch(...args))
+    this._timeout = options.timeout ?? LONGPOLL_TIMEOUT
+    setTimeout(() => this._poll(), 0)
+  }
+
+  /**
+   * Rewrites a WebSocket endpoint to the matching long-poll HTTP endpoint.
+   */
+  static pollEndpoint(address: string): string {
+    return address
+      .replace(/^ws(s?):\/\//i, 'http$1://')
+      .replace(
+        new RegExp(`/${TRANSPORTS.websocket}(\\?|$)`),
+        `/${TRANSPORTS.longpoll}$1`
+      )
+  }
+
+  /**
+   * Returns the poll URL including the current session token.
+   */
+  endpointURL(): string {
+    if (!this.token) {
+      return this.url
+    }
+    const prefix = this.url.match(/\?/) ? '&' : '?'
+    return `${this.url}${prefix}${new URLSearchParams({ token: this.token })}`
+  }
+
+  send(data: string | ArrayBufferLike | Blob | ArrayBufferView): void {
+    const contentType =
+      typeof data === 'string' ? 'application/json' : 'application/octet-stream'
+
+    this._request('POST', contentType, data)
+      .then(async (response) => {
+        await response.body?.cancel()
+        if (!response.ok) {
+          this._fail(WS_CLOSE_UNEXPECTED, `send failed with ${response.status}`)
+        }
+      })
+      .catch((error) => {
+        if (!this._isClosed()) {
+          this._fail(WS_CLOSE_UNEXPECTED, `send failed: ${error?.message}`)
+        }
+      })
+  }
+
+  close(code: number = WS_CLOSE_NORMAL, reason: string = ''): void {
+    if (this._isClosed()) {
+      return
+    }
+    this.readyState = SOCKET_STATES.closed
+    this._controllers.forEach((controller) => controller.abort())
+    this._controllers.clear()
+    this._dispatch('close', {
+      type: 'close',
+      code,
+      reason,
+      wasClean: code === WS_CLOSE_NORMAL,
+    })
+  }
+
+  private async _poll(): Promise<void> {
+    if (this._isClosed()) {
+      return
+    }
+
+    let resp: PollResponse
+    try {
+      const response = await this._request('GET', 'application/json', null)
+      resp = response.ok ? await response.json() : { status: response.status }
+    } catch (error: any) {
+      if (this._isClosed()) {
+        return
+      }
+      if (error?.name === 'AbortError') {
+        this._fail(WS_CLOSE_TIMEOUT, 'timeout')
+      } else {
+        this._fail(WS_CLOSE_UNEXPECTED, `poll failed: ${error?.message}`)
+      }
+      return
+    }
+
+    if (this._isClosed()) {
+      return
+    }
+    if (resp.token !== undefined) {
+      this.token = resp.token
+    }
+
+    switch (resp.status) {
+      case 200:
+        resp.messages?.forEach((data) =>
+          this._dispatch('message', { type: 'message', data })
+        )
+        this._poll()
+        break
+      case 204:
+        this._poll()
+        break
+      case 410:
+        this.readyState = SOCKET_STATES.open
+        this._dispatch('open', { type: 'open' })
+        this._poll()
+        break
+      case 403:
+        this._fail(WS_CLOSE_POLICY_VIOLATION, 'forbidden')
+        break
+      default:
+        this._fail(WS_CLOSE_UNEXPECTED, 'internal server error')
+    }
+  }
+
+  private async _request(
+    method: 'GET' | 'POST',
+    contentType: string,
+    body: any
+  ): Promise<Response> {
+    const controller = new AbortController()
+    const id = setTimeout(() => controller.abort(), this._timeout)
+    this._controllers.add(controller)
+
+    try {
+      return await this._fetch(this.endpointURL(), {
+        method,
+        headers: { 'Content-Type': contentType },
+        body,
+        signal: controller.signal,
+      })
+    } finally {
+      clearTimeout(id)
+      this._controllers.delete(controller)
+    }
+  }
+
+  private _fail(code: number, reason: string): void {
+    this._dispatch('error', { type: 'error', message: reason })
+    this.close(code, reason)
+  }
+
+  private _isClosed(): boolean {
+    return this.readyState === SOCKET_STATES.closed
+  }
+}
@@ -0,0 +1,415 @@
+/**
+ * A minimal MessagePack (https://msgpack.org) codec for Realtime messages.
+ *
+ * Supports nil, booleans, numbers, strings, binary, arrays and maps. Extension
+ * types are not supported.
+ */
+
+import type { RealtimeMessage } from '../RealtimeClient'
+import type { RealtimeCodec } from './codec'
+
+const UINT32_RANGE = 0x100000000
+
+class Writer {
+  bytes = new Uint8Array(256)
+  view = new DataView(this.bytes.buffer)
+  length = 0
+
+  ensure(size: number) {
+    if (this.length + size <= this.bytes.length) {
+      return
+    }
+    let capacity = this.bytes.length * 2
+    while (capacity < this.length + size) {
+      capacity = capacity * 2
+    }
+    const bytes = new Uint8Array(capacity)
+    bytes.set(this.bytes)
+    this.bytes = bytes
+    this.view = new DataView(bytes.buffer)
+  }
+
+  uint8(value: number) {
+    this.ensure(1)
+    this.view.setUint8(this.length, value)
+    this.length += 1
+  }
+
+  uint16(value: number) {
+    this.ensure(2)
+    this.view.setUint16(this.length, value)
+    this.length += 2
+  }
+
+  uint32(value: number) {
+    this.ensure(4)
+    this.view.setUint32(this.length, value)
+    this.length += 4
+  }
+
+  int8(value: number) {
+    this.ensure(1)
+    this.view.setInt8(this.length, value)
+    this.length += 1
+  }
+
+  int16(value: number) {
+    this.ensure(2)
+    this.view.setInt16(this.length, value)
+    this.length += 2
+  }
+
+  int32(value: number) {
+    this.ensure(4)
+    this.view.setInt32(this.length, value)
+    this.length += 4
+  }
+
+  float64(value: number) {
+    this.ensure(8)
+    this.view.setFloat64(this.length, value)
+    this.length += 8
+  }
+
+  raw(bytes: Uint8Array) {
+    this.ensure(bytes.length)
+    this.bytes.set(bytes, this.length)
+    this.length += bytes.length
+  }
+
+  result(): Uint8Array {
+    return this.bytes.slice(0, this.length)
+  }
+}
+
+class Reader {
+  view: DataView
+  offset = 0
+  decoder = new TextDecoder()
+
+  constructor(public bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  }
+
+  uint8() {
+    const value = this.view.getUint8(this.offset)
+    this.offset += 1
+    return value
+  }
+
+  uint16() {
+    const value = this.view.getUint16(this.offset)
+    this.offset += 2
+    return value
+  }
+
+  uint32() {
+    const value = this.view.getUint32(this.offset)
+    this.offset += 4
+    return value
+  }
+
+  int8() {
+    const value = this.view.getInt8(this.offset)
+    this.offset += 1
+    return value
+  }
+
+  int16() {
+    const value = this.view.getInt16(this.offset)
+    this.offset += 2
+    return value
+  }
+
+  int32() {
+    const value = this.view.getInt32(this.offset)
+    this.offset += 4
+    return value
+  }
+
+  float32() {
+    const value = this.view.getFloat32(this.offset)
+    this.offset += 4
+    return value
+  }
+
+  float64() {
+    const value = this.view.getFloat64(this.offset)
+    this.offset += 8
+    return value
+  }
+
+  raw(size: number) {
+    const value = this.bytes.slice(this.offset, this.offset + size)
+    this.offset += size
+    return value
+  }
+
+  str(size: number) {
+    return this.decoder.decode(this.raw(size))
+  }
+}
+
+/**
+ * Encodes a value as MessagePack.
+ *
+ * Like `JSON.stringify`, object properties set to `undefined` are skipped and
+ * values with a `toJSON` method are encoded through it.
+ */
+export function encode(value: any): Uint8Array {
+  const writer = new Writer()
+  write(writer, value, new TextEncoder())
+  return writer.result()
+}
+
+/**
+ * Decodes a MessagePack encoded value.
+ */
+export function decode(bytes: Uint8Array | ArrayBuffer): any {
+  const reader = new Reader(
+    bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes)
+  )
+  const value = read(reader)
+  if (reader.offset !== reader.bytes.length) {
+    throw new Error('MessagePack: unexpected trailing bytes')
+  }
+  return value
+}
+
+export default class MessagePackCodec implements RealtimeCodec {
+  readonly name = 'msgpack'
+  readonly binaryType = 'arraybuffer'
+
+  encode(msg: RealtimeMessage, callback: (encoded: ArrayBuffer) => void) {
+    const bytes = encode(msg)
+    callback(
+      bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength)
+    )
+  }
+
+  decode(
+    rawPayload: string | ArrayBuffer,
+    callback: (msg: RealtimeMessage) => void
+  ) {
+    if (typeof rawPayload === 'string') {
+      return callback(JSON.parse(rawPayload))
+    }
+
+    return callback(decode(rawPayload))
+  }
+}
+
+function write(writer: Writer, value: any, encoder: TextEncoder) {
+  if (value === null || value === undefined) {
+    writer.uint8(0xc0)
+  } else if (typeof value === 'boolean') {
+    writer.uint8(value ? 0xc3 : 0xc2)
+  } else if (typeof value === 'number') {
+    writeNumber(writer, value)
+  } else if (typeof value === 'string') {
+    writeString(writer, value, encoder)
+  } else if (value instanceof Uint8Array || value instanceof ArrayBuffer) {
+    writeBinary(writer, new Uint8Array(value))
+  } else if (Array.isArray(value)) {
+    writeArrayHeader(writer, value.length)
+    value.forEach((item) => write(writer, item, encoder))
+  } else if (typeof value.toJSON === 'function') {
+    write(writer, value.toJSON(), encoder)
+  } else if (typeof value === 'object') {
+    const keys = Object.keys(value).filter((key) => value[key] !== undefined)
+    writeMapHeader(writer, keys.length)
+    keys.forEach((key) => {
+      writeString(writer, key, encoder)
+      write(writer, value[key], encoder)
+    })
+  } else {
+    throw new Error(`MessagePack: cannot encode value of type ${typeof value}`)
+  }
+}
+
+function writeNumber(writer: Writer, value: number) {
+  if (!Number.isSafeInteger(value)) {
+    writer.uint8(0xcb)
+    writer.float64(value)
+  } else if (value >= 0) {
+    if (value < 0x80) {
+      writer.uint8(value)
+    } else if (value <= 0xff) {
+      writer.uint8(0xcc)
+      writer.uint8(value)
+    } else if (value <= 0xffff) {
+      writer.uint8(0xcd)
+      writer.uint16(value)
+    } else if (value < UINT32_RANGE) {
+      writer.uint8(0xce)
+      writer.uint32(value)
+    } else {
+      writer.uint8(0xcf)
+      writer.uint32(Math.floor(value / UINT32_RANGE))
+      writer.uint32(value % UINT32_RANGE)
+    }
+  } else {
+    if (value >= -0x20) {
+      writer.int8(value)
+    } else if (value >= -0x80) {
+      writer.uint8(0xd0)
+      writer.int8(value)
+    } else if (value >= -0x8000) {
+      writer.uint8(0xd1)
+      writer.int16(value)
+    } else if (value >= -0x80000000) {
+      writer.uint8(0xd2)
+      writer.int32(value)
+    } else {
+      const high = Math.floor(value / UINT32_RANGE)
+      writer.uint8(0xd3)
+      writer.int32(high)
+      writer.uint32(value - high * UINT32_RANGE)
+    }
+  }
+}
+
+function writeString(writer: Writer, value: string, encoder: TextEncoder) {
+  const bytes = encoder.encode(value)
+  const size = bytes.length
+  if (size < 0x20) {
+    writer.uint8(0xa0 | size)
+  } else if (size <= 0xff) {
+    writer.uint8(0xd9)
+    writer.uint8(size)
+  } else if (size <= 0xffff) {
+    writer.uint8(0xda)
+    writer.uint16(size)
+  } else {
+    writer.uint8(0xdb)
+    writer.uint32(size)
+  }
+  writer.raw(bytes)
+}
+
+function writeBinary(writer: Writer, bytes: Uint8Array) {
+  const size = bytes.length
+  if (size <= 0xff) {
+    writer.uint8(0xc4)
+    writer.uint8(size)
+  } else if (size <= 0xffff) {
+    writer.uint8(0xc5)
+    writer.uint16(size)
+  } else {
+    writer.uint8(0xc6)
+    writer.uint32(size)
+  }
+  writer.raw(bytes)
+}
+
+function writeArrayHeader(writer: Writer, size: number) {
+  if (size < 0x10) {
+    writer.uint8(0x90 | size)
+  } else if (size <= 0xffff) {
+    writer.uint8(0xdc)
+    writer.uint16(size)
+  } else {
+    writer.uint8(0xdd)
+    writer.uint32(size)
+  }
+}
+
+function writeMapHeader(writer: Writer, size: number) {
+  if (size < 0x10) {
+    writer.uint8(0x80 | size)
+  } else if (size <= 0xffff) {
+    writer.uint8(0xde)
+    writer.uint16(size)
+  } else {
+    writer.uint8(0xdf)
+    writer.uint32(size)
+  }
+}
+
+function read(reader: Reader): any {
+  const type = reader.uint8()
+
+  if (type < 0x80) {
+    return type
+  } else if (type < 0x90) {
+    return readMap(reader, type & 0x0f)
+  } else if (type < 0xa0) {
+    return readArray(reader, type & 0x0f)
+  } else if (type < 0xc0) {
+    return reader.str(type & 0x1f)
+  } else if (type >= 0xe0) {
+    return type - 0x100
+  }
+
+  switch (type) {
+    case 0xc0:
+      return null
+    case 0xc2:
+      return false
+    case 0xc3:
+      return true
+    case 0xc4:
+      return reader.raw(reader.uint8())
+    case 0xc5:
+      return reader.raw(reader.uint16())
+    case 0xc6:
+      return reader.raw(reader.uint32())
+    case 0xca:
+      return reader.float32()
+    case 0xcb:
+      return reader.float64()
+    case 0xcc:
+      return reader.uint8()
+    case 0xcd:
+      return reader.uint16()
+    case 0xce:
+      return reader.uint32()
+    case 0xcf:
+      return reader.uint32() * UINT32_RANGE + reader.uint32()
+    case 0xd0:
+      return reader.int8()
+    case 0xd1:
+      return reader.int16()
+    case 0xd2:
+      return reader.int32()
+    case 0xd3:
+      return reader.int32() * UINT32_RANGE + reader.uint32()
+    case 0xd9:
+      return reader.str(reader.uint8())
+    case 0xda:
+      return reader.str(reader.uint16())
+    case 0xdb:
+      return reader.str(reader.uint32())
+    case 0xdc:
+      return readArray(reader, reader.uint16())
+    case 0xdd:
+      return readArray(reader, reader.uint32())
+    case 0xde:
+      return readMap(reader, reader.uint16())
+    case 0xdf:
+      return readMap(reader, reader.uint32())
+    default:
+      throw new Error(
+        `MessagePack: unsupported type 0x${type.toString(16)} at offset ${
+          reader.offset - 1
+        }`
+      )
+  }
+}
+
+function readArray(reader: Reader, size: number): any[] {
+  const result = new Array(size)
+  for (let i = 0; i < size; i++) {
+    result[i] = read(reader)
+  }
+  return result
+}
+
+function readMap(reader: Reader, size: number): { [key: string]: any } {
+  const result: { [key: string]: any } = {}
+  for (let i = 0; i < size; i++) {
+    const key = read(reader)
+    result[String(key)] = read(reader)
+  }
+  return result
+}
@@ -0,0 +1,164 @@
+/**
+ * Persists the outbox between sessions as a single string value per key.
+ *
+ * Methods return promises so that storages are free to be asynchronous.
+ */
+export interface OutboxStorage {
+  get(key: string): Promise<string | null>
+  set(key: string, value: string): Promise<void>
+  remove(key: string): Promise<void>
+}
+
+/**
+ * Keeps the outbox in memory: it survives reconnects but not reloads.
+ */
+export class MemoryOutboxStorage implements OutboxStorage {
+  private _values: Map<string, string> = new Map()
+
+  async get(key: string): Promise<string | null> {
+    return this._values.get(key) ?? null
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this._values.set(key, value)
+  }
+
+  async remove(key: string): Promise<void> {
+    this._values.delete(key)
+  }
+}
+
+/**
+ * Keeps the outbox in the browser's `localStorage`, or any storage implementing the Web Storage API.
+ *
+ * @example
+ *    new LocalStorageOutboxStorage() // uses window.localStorage
+ *    new LocalStorageOutboxStorage(sessionStorage)
+ */
+export class LocalStorageOutboxStorage implements OutboxStorage {
+  constructor(private storage: Storage = globalThis.localStorage) {}
+
+  async get(key: string): Promise<string | null> {
+    return this.storage.getItem(key)
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.storage.setItem(key, value)
+  }
+
+  async remove(key: string): Promise<void> {
+    this.storage.removeItem(key)
+  }
+}
+
+/**
+ * Keeps the outbox in an IndexedDB object store, created on first use.
+ *
+ * @example
+ *    new IndexedDBOutboxStorage('my-app', 'realtime-outbox')
+ */
+export class IndexedDBOutboxStorage implements OutboxStorage {
+  private _db: Promise<IDBDatabase> | null = null
+
+  /**
+   * @param databaseName The name of the database. Defaults to 'supabase-realtime'.
+   * @param storeName The name of the object store. Defaults to 'outbox'.
+   */
+  constructor(
+    private databaseName: string = 'supabase-realtime',
+    private storeName: string = 'outbox'
+  ) {}
+
+  async get(key: string): Promise<string | null> {
+    const value = await this._request('readonly', (store) => store.get(key))
+    return value ?? null
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this._request('readwrite', (store) => store.put(value, key))
+  }
+
+  async remove(key: string): Promise<void> {
+    await this._request('readwrite', (store) => store.delete(key))
+  }
+
+  private async _request<T>(
+    mode: IDBTransactionMode,
+    request: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this._open()
+    return new Promise((resolve, reject) => {
+      const req = request(
+        db.transaction(this.storeName, mode).objectStore(this.storeName)
+      )
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => reject(req.error)
+    })
+  }
+
+  private _open(): Promise<IDBDatabase> {
+    if (!this._db) {
+      this._db = new Promise((resolve, reject) => {
+        const req = indexedDB.open(this.databaseName, 1)
+        req.onupgradeneeded = () => req.result.createObjectStore(this.storeName)
+        req.onsuccess = () => resolve(req.result)
+        req.onerror = () => reject(req.error)
+      })
+    }
+    return this._db
+  }
+}
+
+/**
+ * The functions of Node's `fs/promises` used by `FileOutboxStorage`, passed in so that this module
+ * does not import Node built-ins.
+ */
+export type OutboxFileSystem = {
+  readFile(path: string, encoding: 'utf8'): Promise<string>
+  writeFile(path: string, data: string, encoding: 'utf8'): Promise<void>
+  mkdir(path: string, options: { recursive: true }): Promise<unknown>
+  rename(oldPath: string, newPath: string): Promise<void>
+  rm(path: string, options: { force: true }): Promise<void>
+}
+
+/**
+ * Keeps the outbox in files of a directory, one per key, for Node.js.
+ *
+ * @example
+ *    import * as fs from 'fs/promises'
+ *    new FileOutboxStorage('./.realtime-outbox', fs)
+ */
+export class FileOutboxStorage implements OutboxStorage {
+  /**
+   * @param directory The directory holding the files, created on first write.
+   * @param fs The file system functions, ie, Node's `fs/promises`.
+   */
+  constructor(private directory: string, private fs: OutboxFileSystem) {}
+
+  async get(key: string): Promise<string | null> {
+    try {
+      return await this.fs.readFile(this._path(key), 'utf8')
+    } catch (error: unknown) {
+      if ((error as { code?: unknown } | null)?.code === 'ENOENT') {
+        return null
+      }
+      throw error
+    }
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    const path = this._path(key)
+    await this.fs.mkdir(this.directory, { recursive: true })
+    await this.fs.writeFile(`${path}.tmp`, value, 'utf8')
+    await this.fs.rename(`${path}.tmp`, path)
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.fs.rm(this._path(key), { force: true })
+  }
+
+  private _path(key: string): string {
+    const directory = this.directory.replace(/[\\/]+$/, '')
+    return `${directory}/${encodeURIComponent(key)}.json`
+  }
+}
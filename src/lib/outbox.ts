@@ -0,0 +1,133 @@
+import type { OutboxStorage } from './outbox-storage'
+
+export type OutboxOptions = {
+  storage?: OutboxStorage
+  key?: string
+  ttl?: number
+  maxEntries?: number
+}
+
+export type OutboxEntry = {
+  topic: string
+  type: 'broadcast' | 'presence'
+  event: string
+  payload?: any
+  /** The time the entry was added, in milliseconds since the epoch. */
+  createdAt: number
+  /** The time after which the entry is discarded instead of replayed. */
+  expiresAt: number
+}
+
+/**
+ * An ordered list of unsent messages, written through to a storage so that they outlive the page or process.
+ *
+ * Only the latest presence `track` of a topic is kept. Expired entries are discarded when the outbox is read.
+ *
+ * @example
+ *    let outbox = new Outbox(new MemoryOutboxStorage(), { ttl: 60000 })
+ *    await outbox.add({ topic: 'room', type: 'broadcast', event: 'msg', payload: {} })
+ *    await outbox.entries('room') // the message, for a minute
+ */
+export default class Outbox {
+  key: string
+  ttl: number
+  maxEntries: number
+
+  private _entries: OutboxEntry[] | null = null
+  private _pending: Promise<unknown> = Promise.resolve()
+
+  /**
+   * @param storage Where entries are persisted.
+   * @param options.key The storage key. Defaults to 'realtime-outbox'.
+   * @param options.ttl How long an entry may wait to be replayed in milliseconds. Defaults to 1 hour.
+   * @param options.maxEntries The number of entries kept, discarding the oldest beyond it. Defaults to 1000.
+   * @param log Called with the entries discarded because the outbox is full.
+   */
+  constructor(
+    private storage: OutboxStorage,
+    options: Omit<OutboxOptions, 'storage'> = {},
+    private log: (message: string, entry: OutboxEntry) => void = () => {}
+  ) {
+    this.key = options.key ?? 'realtime-outbox'
+    this.ttl = options.ttl ?? 60 * 60 * 1000
+    this.maxEntries = options.maxEntries ?? 1000
+  }
+
+  /**
+   * Adds a message, replacing the pending `track` of the topic when it is one.
+   */
+  async add(
+    entry: Omit<OutboxEntry, 'createdAt' | 'expiresAt'>
+  ): Promise<void> {
+    const now = Date.now()
+    await this._update((entries) => {
+      if (isTrack(entry)) {
+        entries = entries.filter(
+          (e) => !(e.topic === entry.topic && isTrack(e))
+        )
+      }
+      entries.push({ ...entry, createdAt: now, expiresAt: now + this.ttl })
+      while (entries.length > this.maxEntries) {
+        this.log('discarded outbox entry due to overflow', entries.shift()!)
+      }
+      return entries
+    })
+  }
+
+  /**
+   * Resolves with the unexpired entries of a topic, in the order they were added.
+   */
+  async entries(topic: string): Promise<OutboxEntry[]> {
+    const entries = await this._update((entries) => entries)
+    return entries.filter((entry) => entry.topic === topic)
+  }
+
+  /**
+   * Removes an entry once it has been sent.
+   */
+  async remove(entry: OutboxEntry): Promise<void> {
+    await this._update((entries) => entries.filter((e) => e !== entry))
+  }
+
+  /**
+   * Removes the pending presence `track` of a topic.
+   */
+  async untrack(topic: string): Promise<void> {
+    await this._update((entries) =>
+      entries.filter((e) => !(e.topic === topic && isTrack(e)))
+    )
+  }
+
+  /**
+   * Applies `change` to the unexpired entries and persists the result, one change at a time.
+   */
+  private _update(
+    change: (entries: OutboxEntry[]) => OutboxEntry[]
+  ): Promise<OutboxEntry[]> {
+    const update = this._pending.then(async () => {
+      if (this._entries === null) {
+        const stored = await this.storage.get(this.key)
+        this._entries = stored ? JSON.parse(stored) : []
+      }
+      const now = Date.now()
+      const previous = this._entries!
+      const entries = change(previous.filter((entry) => entry.expiresAt > now))
+      if (
+        entries.length !== previous.length ||
+        entries.some((entry, i) => entry !== previous[i])
+      ) {
+        await (entries.length > 0
+          ? this.storage.set(this.key, JSON.stringify(entries))
+          : this.storage.remove(this.key))
+      }
+      this._entries = entries
+      return entries
+    })
+    this._pending = update.catch(() => {})
+    return update
+  }
+}
+
+function isTrack(entry: { type: string; event: string }): boolean {
+  return entry.type === 'presence' && entry.event === 'track'
+}
@@ -1,5 +1,6 @@
 import { DEFAULT_TIMEOUT } from '../lib/constants'
 import type RealtimeChannel from '../RealtimeChannel'
+import { RealtimeError, RealtimeTimeoutError, errorFromReply } from './errors'
 
 export default class Push {
   sent: boolean = false
@@ -68,6 +69,15 @@ export default class Push {
     return this
   }
 
+  /**
+   * Removes a callback added with `receive()`.
+   */
+  off(status: string, callback: Function): void {
+    this.recHooks = this.recHooks.filter(
+      (hook) => hook.status !== status || hook.callback !== callback
+    )
+  }
+
   startTimeout() {
     if (this.timeoutTimer) {
       return
@@ -94,6 +104,22 @@ export default class Push {
       this.channel._trigger(this.refEvent, { status, response })
   }
 
+  /**
+   * Returns the error for an `error` reply or a timeout, or `null` otherwise.
+   */
+  error(): RealtimeError | null {
+    switch (this.receivedResp?.status) {
+      case 'error':
+        return errorFromReply(this.receivedResp.response)
+      case 'timeout':
+        return new RealtimeTimeoutError(
+          `${this.event} on ${this.channel.topic} timed out after ${this.timeout}ms`
+        )
+      default:
+        return null
+    }
+  }
+
   destroy() {
     this._cancelRefEvent()
     this._cancelTimeout()
@@ -0,0 +1,130 @@
+export type RateLimitPolicy = 'queue' | 'drop' | 'coalesce'
+
+export type RateLimitOptions = {
+  rate: number
+  burst?: number
+  policy?: RateLimitPolicy
+}
+
+type Waiter = {
+  key: string
+  resolve: (granted: boolean) => void
+}
+
+/**
+ * A token bucket granting at most `rate` messages per second, after an initial burst of `burst` messages.
+ *
+ * Messages over the limit wait their turn with 'queue', are refused with 'drop', or with 'coalesce'
+ * wait their turn while replacing the waiting message with the same key, so only the latest is sent.
+ *
+ * @example
+ *    let limiter = new RateLimiter({ rate: 10, burst: 2, policy: 'coalesce' })
+ *    limiter.acquire('cursor') // true right away
+ *    limiter.acquire('cursor') // true right away
+ *    limiter.acquire('cursor') // false once the next call replaces it
+ *    limiter.acquire('cursor') // true after 100ms
+ */
+export default class RateLimiter {
+  rate: number
+  burst: number
+  policy: RateLimitPolicy
+
+  private _tokens: number
+  private _updatedAt: number
+  private _waiting: Waiter[] = []
+  private _timer: ReturnType<typeof setTimeout> | undefined = undefined
+
+  /**
+   * @param options.rate The number of messages allowed per second.
+   * @param options.burst The number of messages allowed at once. Defaults to `rate`.
+   * @param options.policy What to do with messages over the limit: 'queue', 'drop' or 'coalesce'. Defaults to 'queue'.
+   * @throws RangeError when `rate` or `burst` is not a positive finite number.
+   */
+  constructor(options: RateLimitOptions) {
+    assertPositive('rate', options.rate)
+    if (options.burst !== undefined) {
+      assertPositive('burst', options.burst)
+    }
+    this.rate = options.rate
+    this.burst = Math.max(options.burst ?? options.rate, 1)
+    this.policy = options.policy ?? 'queue'
+    this._tokens = this.burst
+    this._updatedAt = Date.now()
+  }
+
+  /**
+   * Resolves with `true` once the message keyed by `key` may be sent, or `false` when it is dropped or replaced.
+   */
+  acquire(key: string): Promise<boolean> {
+    this._refill()
+    if (this._waiting.length === 0 && this._tokens >= 1) {
+      this._tokens -= 1
+      return Promise.resolve(true)
+    }
+    if (this.policy === 'drop') {
+      return Promise.resolve(false)
+    }
+
+    return new Promise((resolve) => {
+      const waiter =
+        this.policy === 'coalesce'
+          ? this._waiting.find((waiting) => waiting.key === key)
+          : undefined
+      if (waiter) {
+        waiter.resolve(false)
+        waiter.resolve = resolve
+        return
+      }
+      this._waiting.push({ key, resolve })
+      this._schedule()
+    })
+  }
+
+  /**
+   * Refuses every waiting message.
+   */
+  clear(): void {
+    clearTimeout(this._timer)
+    this._timer = undefined
+    this._waiting.splice(0).forEach((waiter) => waiter.resolve(false))
+  }
+
+  private _refill(): void {
+    const now = Date.now()
+    this._tokens = Math.min(
+      this.burst,
+      this._tokens + ((now - this._updatedAt) * this.rate) / 1000
+    )
+    this._updatedAt = now
+  }
+
+  private _schedule(): void {
+    if (this._timer !== undefined) {
+      return
+    }
+    const waitMs = Math.ceil(((1 - this._tokens) * 1000) / this.rate)
+    this._timer = setTimeout(() => {
+      this._timer = undefined
+      this._drain()
+    }, Math.max(waitMs, 0))
+  }
+
+  private _drain(): void {
+    this._refill()
+    while (this._waiting.length > 0 && this._tokens >= 1) {
+      this._tokens -= 1
+      this._waiting.shift()!.resolve(true)
+    }
+    if (this._waiting.length > 0) {
+      this._schedule()
+    }
+  }
+}
+
+function assertPositive(name: string, value: number): void {
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new RangeError(
+      `rate limit ${name} must be a positive finite number, got ${value}`
+    )
+  }
+}
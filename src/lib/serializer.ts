@@ -1,26 +1,180 @@
 // This file draws heavily from https://github.com/phoenixframework/phoenix/commit/cf098e9cf7a44ee6479d31d911a97d3c7430c6fe
 // License: https://github.com/phoenixframework/phoenix/blob/master/LICENSE.md
 
-export default class Serializer {
+import type { RealtimeMessage } from '../RealtimeClient'
+import type { RealtimeCodec } from './codec'
+import { BINARY_VSN, VSN } from './constants'
+import { inflate } from './deflate'
+
+export type SerializerOptions = {
+  /**
+   * Encode every outgoing broadcast as a binary frame, speaking protocol
+   * version 2.0.0, the only one in which the server accepts binary frames.
+   * Raw ArrayBuffer or Uint8Array payloads can only be sent when `'binary'`.
+   */
+  broadcastEncoding?: 'json' | 'binary'
+}
+
+export default class Serializer implements RealtimeCodec {
+  readonly name: string
+  readonly binaryType = 'arraybuffer'
+  readonly vsn: string
+  broadcastEncoding: 'json' | 'binary'
   HEADER_LENGTH = 1
+  USER_BROADCAST_PUSH_META_LENGTH = 5
+  USER_BROADCAST_META_LENGTH = 3
+  KINDS = { broadcast: 2, userBroadcastPush: 3, userBroadcast: 4 }
+  PAYLOAD_ENCODINGS = { binary: 0, json: 1, deflate: 2 }
+  MAX_SEGMENT_SIZE = 255
+
+  constructor(options: SerializerOptions = {}) {
+    this.broadcastEncoding = options.broadcastEncoding ?? 'json'
+    this.name = this.broadcastEncoding
+    this.vsn = this.broadcastEncoding === 'binary' ? BINARY_VSN : VSN
+  }
+
+  /**
+   * Encodes outgoing messages. When `broadcastEncoding` is `'binary'`,
+   * broadcasts are encoded as binary frames and every other message as a
+   * 2.0.0 JSON array, otherwise every message is encoded as a JSON object.
+   */
+  encode(msg: RealtimeMessage, callback: Function) {
+    const isBinary =
+      this._isUserBroadcastPush(msg) &&
+      this.isBinaryPayload(msg.payload.payload)
+    if (this.broadcastEncoding !== 'binary') {
+      if (isBinary) {
+        throw new Error(
+          "binary broadcast payloads require broadcastEncoding 'binary'"
+        )
+      }
+      return callback(JSON.stringify(msg))
+    }
+
+    if (this._isUserBroadcastPush(msg)) {
+      const encoded = this._encodeUserBroadcastPush(msg)
+      if (encoded) {
+        return callback(encoded)
+      }
+      if (isBinary) {
+        throw new Error(
+          'binary broadcast payloads require join_ref, ref, topic and event to be at most 255 bytes each'
+        )
+      }
+    }
 
+    const { join_ref, ref, topic, event, payload } = msg
+    return callback(
+      JSON.stringify([join_ref ?? null, ref ?? null, topic, event, payload])
+    )
+  }
+
+  /**
+   * Decodes incoming messages, from JSON objects, 2.0.0 JSON arrays or
+   * binary broadcast frames.
+   */
   decode(rawPayload: ArrayBuffer | string, callback: Function) {
     if (rawPayload.constructor === ArrayBuffer) {
       return callback(this._binaryDecode(rawPayload))
     }
 
     if (typeof rawPayload === 'string') {
-      return callback(JSON.parse(rawPayload))
+      const decoded = JSON.parse(rawPayload)
+      if (Array.isArray(decoded)) {
+        const [join_ref, ref, topic, event, payload] = decoded
+        return callback({ join_ref, ref, topic, event, payload })
+      }
+      return callback(decoded)
     }
 
     return callback({})
   }
 
+  /**
+   * Returns `true` if the value is raw bytes that can be sent without JSON encoding.
+   */
+  isBinaryPayload(payload: any): payload is ArrayBuffer | Uint8Array {
+    return payload instanceof ArrayBuffer || payload instanceof Uint8Array
+  }
+
+  private _isUserBroadcastPush(msg: RealtimeMessage): boolean {
+    return (
+      msg.event === 'broadcast' &&
+      typeof msg.payload?.event === 'string' &&
+      msg.payload?.type === 'broadcast'
+    )
+  }
+
+  /**
+   * Layout: kind | join_ref size | ref size | topic size | event size |
+   * payload encoding | join_ref | ref | topic | event | payload
+   *
+   * Payloads already compressed by the channel carry `compression: 'deflate'`
+   * and are flagged so `decode` inflates them back to JSON.
+   *
+   * Returns `null` when a header segment does not fit in a single size byte.
+   */
+  private _encodeUserBroadcastPush(msg: RealtimeMessage): ArrayBuffer | null {
+    const encoder = new TextEncoder()
+    const segments = [
+      encoder.encode(msg.join_ref ?? ''),
+      encoder.encode(msg.ref ?? ''),
+      encoder.encode(msg.topic),
+      encoder.encode(msg.payload.event),
+    ]
+    if (segments.some((segment) => segment.length > this.MAX_SEGMENT_SIZE)) {
+      return null
+    }
+    const userPayload = msg.payload.payload
+    const isBinary = this.isBinaryPayload(userPayload)
+    const payload = isBinary
+      ? new Uint8Array(userPayload)
+      : encoder.encode(JSON.stringify(userPayload ?? {}))
+
+    const metaLength = this.HEADER_LENGTH + this.USER_BROADCAST_PUSH_META_LENGTH
+    const segmentsLength = segments.reduce((sum, s) => sum + s.length, 0)
+    const buffer = new ArrayBuffer(metaLength + segmentsLength + payload.length)
+    const view = new DataView(buffer)
+    const bytes = new Uint8Array(buffer)
+
+    view.setUint8(0, this.KINDS.userBroadcastPush)
+    let offset = metaLength
+    segments.forEach((segment, i) => {
+      view.setUint8(this.HEADER_LENGTH + i, segment.length)
+      bytes.set(segment, offset)
+      offset = offset + segment.length
+    })
+    view.setUint8(
+      this.HEADER_LENGTH + segments.length,
+      this._payloadEncoding(msg, isBinary)
+    )
+    bytes.set(payload, offset)
+
+    return buffer
+  }
+
+  private _payloadEncoding(msg: RealtimeMessage, isBinary: boolean): number {
+    if (isBinary && msg.payload.compression === 'deflate') {
+      return this.PAYLOAD_ENCODINGS.deflate
+    }
+
+    return isBinary
+      ? this.PAYLOAD_ENCODINGS.binary
+      : this.PAYLOAD_ENCODINGS.json
+  }
+
   private _binaryDecode(buffer: ArrayBuffer) {
     const view = new DataView(buffer)
     const decoder = new TextDecoder()
 
-    return this._decodeBroadcast(buffer, view, decoder)
+    switch (view.getUint8(0)) {
+      case this.KINDS.userBroadcastPush:
+        return this._decodeUserBroadcastPush(buffer, view, decoder)
+      case this.KINDS.userBroadcast:
+        return this._decodeUserBroadcast(buffer, view, decoder)
+      default:
+        return this._decodeBroadcast(buffer, view, decoder)
+    }
   }
 
   private _decodeBroadcast(
@@ -46,4 +200,90 @@ export default class Serializer {
 
     return { ref: null, topic: topic, event: event, payload: data }
   }
+
+  /**
+   * Layout: kind | topic size | event size | payload encoding |
+   * topic | event | payload
+   */
+  private _decodeUserBroadcast(
+    buffer: ArrayBuffer,
+    view: DataView,
+    decoder: TextDecoder
+  ): {
+    ref: null
+    topic: string
+    event: string
+    payload: { [key: string]: any }
+  } {
+    const topicSize = view.getUint8(1)
+    const eventSize = view.getUint8(2)
+    const payloadEncoding = view.getUint8(3)
+    let offset = this.HEADER_LENGTH + this.USER_BROADCAST_META_LENGTH
+    const topic = decoder.decode(buffer.slice(offset, offset + topicSize))
+    offset = offset + topicSize
+    const event = decoder.decode(buffer.slice(offset, offset + eventSize))
+    offset = offset + eventSize
+    const data = this._decodePayload(
+      buffer.slice(offset, buffer.byteLength),
+      payloadEncoding,
+      decoder
+    )
+
+    return {
+      ref: null,
+      topic: topic,
+      event: 'broadcast',
+      payload: { type: 'broadcast', event: event, payload: data },
+    }
+  }
+
+  private _decodeUserBroadcastPush(
+    buffer: ArrayBuffer,
+    view: DataView,
+    decoder: TextDecoder
+  ): RealtimeMessage {
+    const joinRefSize = view.getUint8(1)
+    const refSize = view.getUint8(2)
+    const topicSize = view.getUint8(3)
+    const eventSize = view.getUint8(4)
+    const payloadEncoding = view.getUint8(5)
+    let offset = this.HEADER_LENGTH + this.USER_BROADCAST_PUSH_META_LENGTH
+    const joinRef = decoder.decode(buffer.slice(offset, offset + joinRefSize))
+    offset = offset + joinRefSize
+    const ref = decoder.decode(buffer.slice(offset, offset + refSize))
+    offset = offset + refSize
+    const topic = decoder.decode(buffer.slice(offset, offset + topicSize))
+    offset = offset + topicSize
+    const event = decoder.decode(buffer.slice(offset, offset + eventSize))
+    offset = offset + eventSize
+    const data = this._decodePayload(
+      buffer.slice(offset, buffer.byteLength),
+      payloadEncoding,
+      decoder
+    )
+
+    return {
+      join_ref: joinRef,
+      ref: ref,
+      topic: topic,
+      event: 'broadcast',
+      payload: { type: 'broadcast', event: event, payload: data },
+    }
+  }
+
+  private _decodePayload(
+    buffer: ArrayBuffer,
+    payloadEncoding: number,
+    decoder: TextDecoder
+  ): any {
+    if (payloadEncoding === this.PAYLOAD_ENCODINGS.binary) {
+      return new Uint8Array(buffer)
+    }
+
+    if (payloadEncoding === this.PAYLOAD_ENCODINGS.deflate) {
+      return JSON.parse(decoder.decode(inflate(new Uint8Array(buffer))))
+    }
+
+    return JSON.parse(decoder.decode(buffer))
+  }
 }
@@ -14,24 +14,41 @@ export default class Timer {
   timer: number | undefined = undefined
   tries: number = 0
 
-  constructor(public callback: Function, public timerCalc: Function) {
+  constructor(
+    public callback: Function,
+    public timerCalc: Function,
+    public maxTries: number = Infinity
+  ) {
     this.callback = callback
     this.timerCalc = timerCalc
+    this.maxTries = maxTries
   }
 
   reset() {
     this.tries = 0
+    this.cancel()
+  }
+
+  // Cancels the scheduled callback, keeping count of the tries
+  cancel() {
     clearTimeout(this.timer)
     this.timer = undefined
   }
 
-  // Cancels any previous scheduleTimeout and schedules callback
-  scheduleTimeout() {
+  // Cancels any previous scheduleTimeout and schedules callback, returning the delay used
+  // or null once `maxTries` attempts have been made
+  scheduleTimeout(): number | null {
     clearTimeout(this.timer)
+    if (this.tries >= this.maxTries) {
+      this.timer = undefined
+      return null
+    }
 
+    const delay = this.timerCalc(this.tries + 1)
     this.timer = <any>setTimeout(() => {
       this.tries = this.tries + 1
       this.callback()
-    }, this.timerCalc(this.tries + 1))
+    }, delay)
+    return delay
   }
 }
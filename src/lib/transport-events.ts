@@ -0,0 +1,41 @@
+export type TransportEventType = 'open' | 'message' | 'close' | 'error'
+
+/**
+ * The `on<type>` handlers and event listeners of transports emulating a WebSocket over HTTP, such as `LongPoll`.
+ */
+export default abstract class TransportEventTarget {
+  onopen: ((this: any, ev: Event) => any) | null = null
+  onmessage: ((this: any, ev: MessageEvent) => any) | null = null
+  onclose: ((this: any, ev: CloseEvent) => any) | null = null
+  onerror: ((this: any, ev: Event) => any) | null = null
+
+  private _listeners: { [type: string]: Set<EventListener> } = {}
+
+  addEventListener(type: string, listener: EventListener): void {
+    this._listeners[type] = this._listeners[type] ?? new Set()
+    this._listeners[type].add(listener)
+  }
+
+  removeEventListener(type: string, listener: EventListener): void {
+    this._listeners[type]?.delete(listener)
+  }
+
+  /**
+   * Calls the `on<type>` handler, then the listeners added for `type`.
+   */
+  protected _dispatch(
+    type: TransportEventType,
+    event: { [key: string]: any }
+  ): void {
+    const handlers: { [T in TransportEventType]: Function | null } = {
+      open: this.onopen,
+      message: this.onmessage,
+      close: this.onclose,
+      error: this.onerror,
+    }
+    handlers[type]?.call(this, event)
+    this._listeners[type]?.forEach((listener) =>
+      listener.call(this, event as Event)
+    )
+  }
+}
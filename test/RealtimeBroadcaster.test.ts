@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, test, vi } from 'vitest'
+import RealtimeBroadcaster from '../src/RealtimeBroadcaster'
+import { RealtimeAuthError } from '../src/lib/errors'
+
+const ENDPOINT = 'https://example.com/realtime/v1/api/broadcast'
+
+const reply = (status: number, body = '') => ({
+  ok: status >= 200 && status < 300,
+  status,
+  body: { cancel: vi.fn() },
+  text: async () => body,
+})
+
+let fetchStub: ReturnType<typeof vi.fn>
+
+const createBroadcaster = (options = {}) =>
+  new RealtimeBroadcaster('wss://example.com/realtime/v1', {
+    params: { apikey: 'abc123' },
+    fetch: fetchStub as unknown as typeof fetch,
+    retry: { base: 1, jitter: 'none' },
+    ...options,
+  })
+
+beforeEach(() => {
+  fetchStub = vi.fn().mockResolvedValue(reply(202))
+})
+
+describe('RealtimeBroadcaster', () => {
+  test('requires an API key', () => {
+    expect(() => new RealtimeBroadcaster('wss://x', {} as any)).toThrow(
+      RealtimeAuthError
+    )
+  })
+
+  test('posts to the REST broadcast endpoint', async () => {
+    const broadcaster = createBroadcaster({
+      accessToken: async () => 'token',
+    })
+
+    const result = await broadcaster.send({
+      topic: 'room:1',
+      event: 'update',
+      payload: { n: 1 },
+      private: true,
+    })
+
+    expect(result).toMatchObject({ status: 'ok', via: 'http', ref: null })
+    const [url, init] = fetchStub.mock.calls[0]
+    expect(url).toBe(ENDPOINT)
+    expect(init.headers).toMatchObject({
+      Authorization: 'Bearer token',
+      apikey: 'abc123',
+      'Content-Type': 'application/json',
+      'Idempotency-Key': expect.any(String),
+    })
+    expect(JSON.parse(init.body)).toEqual({
+      messages: [
+        { topic: 'room:1', event: 'update', payload: { n: 1 }, private: true },
+      ],
+    })
+  })
+
+  test('asks for the access token on every request', async () => {
+    const accessToken = vi
+      .fn()
+      .mockResolvedValueOnce('first')
+      .mockResolvedValueOnce('second')
+    const broadcaster = createBroadcaster({ accessToken })
+
+    await broadcaster.send({ topic: 'a', event: 'e' })
+    await broadcaster.send({ topic: 'a', event: 'e' })
+
+    expect(fetchStub.mock.calls[1][1].headers.Authorization).toBe(
+      'Bearer second'
+    )
+  })
+
+  test('retries transient failures with the same idempotency key', async () => {
+    fetchStub
+      .mockResolvedValueOnce(reply(503))
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(reply(202))
+    const broadcaster = createBroadcaster()
+
+    const result = await broadcaster.send(
+      { topic: 'a', event: 'e' },
+      { idempotencyKey: 'key-1' }
+    )
+
+    expect(result.status).toBe('ok')
+    expect(fetchStub).toHaveBeenCalledTimes(3)
+    fetchStub.mock.calls.forEach(([, init]) =>
+      expect(init.headers['Idempotency-Key']).toBe('key-1')
+    )
+  })
+
+  test('gives up after the maximum attempts', async () => {
+    fetchStub.mockResolvedValue(reply(500, '{"error":"down"}'))
+    const broadcaster = createBroadcaster()
+
+    const result = await broadcaster.send({ topic: 'a', event: 'e' })
+
+    expect(fetchStub).toHaveBeenCalledTimes(3)
+    expect(result).toMatchObject({
+      status: 'error',
+      attempts: 3,
+      httpStatus: 500,
+      response: { error: 'down' },
+    })
+  })
+
+  test('does not retry rejected requests', async () => {
+    fetchStub.mockResolvedValue(reply(403))
+    const broadcaster = createBroadcaster()
+
+    const result = await broadcaster.send({ topic: 'a', event: 'e' })
+
+    expect(fetchStub).toHaveBeenCalledTimes(1)
+    expect(result.error).toBeInstanceOf(RealtimeAuthError)
+  })
+
+  test('does not retry when disabled', async () => {
+    fetchStub.mockResolvedValue(reply(503))
+    const broadcaster = createBroadcaster({ retry: false })
+
+    await broadcaster.send({ topic: 'a', event: 'e' })
+
+    expect(fetchStub).toHaveBeenCalledTimes(1)
+  })
+
+  test('sends batches with one result per message', async () => {
+    const broadcaster = createBroadcaster()
+
+    const results = await broadcaster.sendBatch([
+      { topic: 'a', event: 'e' },
+      { topic: 'b', event: 'e', payload: new Uint8Array([1]) },
+    ])
+
+    expect(fetchStub).toHaveBeenCalledTimes(1)
+    expect(results.map((result) => result.status)).toEqual(['ok', 'error'])
+  })
+})
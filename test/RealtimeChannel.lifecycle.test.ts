@@ -6,6 +6,11 @@ import RealtimeChannel from '../src/RealtimeChannel'
 import { WebSocket } from 'mock-socket'
 import { CHANNEL_STATES } from '../src/lib/constants'
 import Push from '../src/lib/push'
+import {
+  RealtimeAuthError,
+  RealtimeBindingMismatchError,
+  RealtimeTimeoutError,
+} from '../src/lib/errors'
 import {
   setupRealtimeTest,
   cleanupRealtimeTest,
@@ -504,6 +509,128 @@ describe('Channel Lifecycle Management', () => {
     })
   })
 
+  describe('subscribeAsync', () => {
+    beforeEach(() => {
+      channel = testSetup.socket.channel('topic')
+    })
+
+    afterEach(() => {
+      channel.unsubscribe()
+    })
+
+    test('resolves with the channel once joined', async () => {
+      const subscribed = channel.subscribeAsync()
+
+      channel.joinPush.trigger('ok', {})
+
+      expect(await subscribed).toBe(channel)
+      assert.equal(channel.state, CHANNEL_STATES.joined)
+    })
+
+    test('resolves right away when already joined', async () => {
+      channel.subscribe()
+      channel.joinPush.trigger('ok', {})
+
+      expect(await channel.subscribeAsync()).toBe(channel)
+    })
+
+    test('resolves after postgres changes bindings are confirmed', async () => {
+      channel.on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'users' },
+        vi.fn()
+      )
+      const subscribed = channel.subscribeAsync()
+
+      channel.joinPush.trigger('ok', {
+        postgres_changes: [
+          { event: 'INSERT', schema: 'public', table: 'users', id: 'abc' },
+        ],
+      })
+
+      await subscribed
+      assert.equal(channel.bindings.postgres_changes[0].id, 'abc')
+    })
+
+    test('rejects with a binding mismatch error', async () => {
+      channel.on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'users' },
+        vi.fn()
+      )
+      const subscribed = channel.subscribeAsync()
+
+      channel.joinPush.trigger('ok', {
+        postgres_changes: [
+          { event: 'UPDATE', schema: 'public', table: 'users', id: 'abc' },
+        ],
+      })
+
+      const error = await subscribed.catch((e) => e)
+      expect(error).toBeInstanceOf(RealtimeBindingMismatchError)
+      expect(error).toMatchObject({
+        code: 'binding_mismatch',
+        message:
+          'mismatch between server and client bindings for postgres changes',
+      })
+    })
+
+    test('rejects with the reply when the join is refused', async () => {
+      const subscribed = channel.subscribeAsync()
+
+      channel.joinPush.trigger('error', { reason: 'unauthorized' })
+
+      const error = await subscribed.catch((e) => e)
+      expect(error).toBeInstanceOf(RealtimeAuthError)
+      expect(error).toMatchObject({
+        code: 'unauthorized',
+        reply: { reason: 'unauthorized' },
+      })
+    })
+
+    test('rejects with a timeout error after the timeout', async () => {
+      vi.spyOn(testSetup.socket, 'isConnected').mockReturnValue(true)
+      vi.spyOn(testSetup.socket, 'push').mockImplementation(() => {})
+      const subscribed = channel.subscribeAsync({ timeout: 500 })
+
+      vi.advanceTimersByTime(500)
+
+      await expect(subscribed).rejects.toBeInstanceOf(RealtimeTimeoutError)
+      await expect(subscribed).rejects.toMatchObject({
+        message: 'timed out subscribing to realtime:topic after 500ms',
+      })
+    })
+
+    test('rejects when the channel closes first', async () => {
+      const subscribed = channel.subscribeAsync()
+
+      channel._trigger('phx_close', 'leave', channel._joinRef())
+
+      await expect(subscribed).rejects.toMatchObject({ code: 'closed' })
+    })
+
+    test('unsubscribes and rejects when aborted', async () => {
+      const controller = new AbortController()
+      const subscribed = channel.subscribeAsync({ signal: controller.signal })
+
+      controller.abort()
+
+      await expect(subscribed).rejects.toMatchObject({ name: 'AbortError' })
+      expect(channel.state).not.toBe(CHANNEL_STATES.joining)
+    })
+
+    test('does not subscribe when already aborted', async () => {
+      const controller = new AbortController()
+      controller.abort()
+
+      await expect(
+        channel.subscribeAsync({ signal: controller.signal })
+      ).rejects.toMatchObject({ name: 'AbortError' })
+      assert.equal(channel.state, CHANNEL_STATES.closed)
+      expect(channel.joinedOnce).toBeFalsy()
+    })
+  })
+
   describe('unsubscribe', () => {
     let destroySpy: any
 
@@ -2,6 +2,13 @@ import assert from 'assert'
 import { describe, beforeEach, afterEach, test, vi, expect } from 'vitest'
 import RealtimeClient from '../src/RealtimeClient'
 import RealtimeChannel from '../src/RealtimeChannel'
+import { inflate } from '../src/lib/deflate'
+import MessagePackCodec from '../src/lib/msgpack'
+import Serializer from '../src/lib/serializer'
+import { RealtimeAuthError } from '../src/lib/errors'
+import RateLimiter from '../src/lib/rate-limiter'
+import Outbox from '../src/lib/outbox'
+import { MemoryOutboxStorage } from '../src/lib/outbox-storage'
 import {
   setupRealtimeTest,
   cleanupRealtimeTest,
@@ -176,6 +183,146 @@ describe('on', () => {
       expect(spy2).toHaveBeenCalled()
       expect(spy3).toHaveBeenCalled()
     })
+
+    test('removes only the callback when given', () => {
+      const spy1 = vi.fn()
+      const spy2 = vi.fn()
+      channel.on('broadcast', { event: 'test' }, spy1)
+      channel.on('broadcast', { event: 'test' }, spy2)
+
+      channel.off('broadcast', { event: 'test' }, spy1)
+      channel._trigger('broadcast', { event: 'test' }, defaultRef)
+
+      expect(spy1).not.toHaveBeenCalled()
+      expect(spy2).toHaveBeenCalled()
+    })
+
+    test('does not resubscribe a joined channel', () => {
+      channel.on('broadcast', { event: 'test' }, vi.fn())
+      channel.subscribe()
+      channel.joinPush.trigger('ok', {})
+      const unsubscribeSpy = vi.spyOn(channel, 'unsubscribe')
+
+      channel.off('broadcast', { event: 'test' })
+
+      expect(unsubscribeSpy).not.toHaveBeenCalled()
+      expect(channel.state).toBe('joined')
+    })
+  })
+
+  describe('listen', () => {
+    test('returns a function removing that handler only', () => {
+      const spy = vi.fn()
+      const dispose = channel.listen('broadcast', { event: 'test' }, spy)
+      channel.on('broadcast', { event: 'test' }, spy)
+
+      dispose()
+      dispose()
+      channel._trigger('broadcast', { event: 'test' }, defaultRef)
+
+      expect(spy).toHaveBeenCalledTimes(1)
+    })
+
+    test('removes postgres changes handlers once joined', () => {
+      const spy = vi.fn()
+      const dispose = channel.listen(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'test' },
+        spy
+      )
+      channel.subscribe()
+      channel.joinPush.trigger('ok', {
+        postgres_changes: [
+          { id: 'abc', event: 'INSERT', schema: 'public', table: 'test' },
+        ],
+      })
+      expect(channel.bindings.postgres_changes[0].id).toBe('abc')
+
+      dispose()
+
+      expect(channel.bindings.postgres_changes).toEqual([])
+    })
+  })
+
+  describe('stream', () => {
+    beforeEach(() => {
+      channel = testSetup.socket.channel('topic')
+    })
+
+    test('yields the payloads of matching events', async () => {
+      const stream = channel.stream({
+        type: 'broadcast',
+        filter: { event: 'test' },
+      })
+
+      channel._trigger('broadcast', { event: 'test', n: 1 }, defaultRef)
+      channel._trigger('broadcast', { event: 'other', n: 2 }, defaultRef)
+      channel._trigger('broadcast', { event: 'test', n: 3 }, defaultRef)
+
+      expect(await stream.next()).toEqual({
+        value: { event: 'test', n: 1 },
+        done: false,
+      })
+      expect(await stream.next()).toEqual({
+        value: { event: 'test', n: 3 },
+        done: false,
+      })
+    })
+
+    test('completes when the channel is unsubscribed', async () => {
+      const stream = channel.stream({
+        type: 'broadcast',
+        filter: { event: 'test' },
+      })
+      const pending = stream.next()
+
+      await channel.unsubscribe()
+
+      expect(await pending).toEqual({ value: undefined, done: true })
+    })
+
+    test('completes when the channel is torn down', async () => {
+      const stream = channel.stream({
+        type: 'broadcast',
+        filter: { event: 'test' },
+      })
+      const pending = stream.next()
+
+      channel.teardown()
+
+      expect(await pending).toEqual({ value: undefined, done: true })
+    })
+
+    test('removes only its own binding when returned', async () => {
+      const spy = vi.fn()
+      channel.on('broadcast', { event: 'test' }, spy)
+      const stream = channel.stream({
+        type: 'broadcast',
+        filter: { event: 'test' },
+      })
+
+      await stream.return!()
+      channel._trigger('broadcast', { event: 'test' }, defaultRef)
+
+      expect(channel.bindings.broadcast.length).toBe(1)
+      expect(spy).toHaveBeenCalledTimes(1)
+    })
+
+    test('unbinds when overflowing with error', async () => {
+      const stream = channel.stream({
+        type: 'broadcast',
+        filter: { event: 'test' },
+        bufferSize: 1,
+        overflow: 'error',
+      })
+
+      channel._trigger('broadcast', { event: 'test', n: 1 }, defaultRef)
+      channel._trigger('broadcast', { event: 'test', n: 2 }, defaultRef)
+
+      expect(channel.bindings.broadcast).toEqual([])
+      expect((await stream.next()).value).toEqual({ event: 'test', n: 1 })
+      await expect(stream.next()).rejects.toThrow('overflowed')
+    })
   })
 
   describe('trigger', () => {
@@ -317,6 +464,23 @@ describe('send', () => {
       )
     })
 
+    test('rejects binary payloads without binary encoding', async () => {
+      const new_channel = testSetup.socket.channel('topic')
+      const pushStub = vi.spyOn(new_channel, '_push')
+      new_channel.subscribe()
+      new_channel.state = 'joined'
+
+      const result = await new_channel.sendDetailed({
+        type: 'broadcast',
+        event: 'chunk',
+        payload: new Uint8Array([1, 2, 3]),
+      })
+
+      expect(result.status).toBe('error')
+      expect(result.error?.code).toBe('unsupported')
+      expect(pushStub).not.toHaveBeenCalled()
+    })
+
     test('cannot send via ws conn when subscription times out', () => {
       const new_channel = testSetup.socket.channel('topic', {
         config: { private: true },
@@ -335,6 +499,143 @@ describe('send', () => {
     })
   })
 
+  describe('compression', () => {
+    const largePayload = { text: 'lorem ipsum '.repeat(200) }
+
+    const joinedChannel = (compression: {
+      enabled?: boolean
+      threshold?: number
+    }) => {
+      const channel = testSetup.socket.channel('compressed', {
+        config: { broadcast: { compression } },
+      })
+      channel.subscribe()
+      channel.state = 'joined'
+      return channel
+    }
+
+    beforeEach(() => {
+      testSetup.socket.serializer = new Serializer({
+        broadcastEncoding: 'binary',
+      })
+      testSetup.socket.codec = testSetup.socket.serializer
+      testSetup.socket.connect()
+      vi.spyOn(testSetup.socket.conn!, 'readyState', 'get').mockReturnValue(1)
+    })
+
+    test('compresses payloads above the threshold', async () => {
+      const channel = joinedChannel({ enabled: true })
+      const pushStub = vi.spyOn(channel, '_push')
+
+      await channel.send({
+        type: 'broadcast',
+        event: 'snapshot',
+        payload: largePayload,
+      })
+
+      const [, args] = pushStub.mock.calls[0]
+      expect(args.compression).toBe('deflate')
+      expect(args.payload).toBeInstanceOf(Uint8Array)
+      expect(
+        JSON.parse(new TextDecoder().decode(inflate(args.payload)))
+      ).toEqual(largePayload)
+    })
+
+    test('does not compress payloads below the threshold', async () => {
+      const channel = joinedChannel({ enabled: true, threshold: 100000 })
+      const pushStub = vi.spyOn(channel, '_push')
+
+      await channel.send({
+        type: 'broadcast',
+        event: 'snapshot',
+        payload: largePayload,
+      })
+
+      expect(pushStub).toHaveBeenCalledWith(
+        'broadcast',
+        { type: 'broadcast', event: 'snapshot', payload: largePayload },
+        1000
+      )
+    })
+
+    test('does not compress when disabled', async () => {
+      const channel = joinedChannel({ enabled: false })
+      const pushStub = vi.spyOn(channel, '_push')
+
+      await channel.send({
+        type: 'broadcast',
+        event: 'snapshot',
+        payload: largePayload,
+      })
+
+      expect(pushStub.mock.calls[0][1].payload).toEqual(largePayload)
+    })
+
+    test('sends broadcasts in order while compressing', async () => {
+      const channel = joinedChannel({ enabled: true })
+      const pushStub = vi.spyOn(channel, '_push')
+
+      await Promise.all([
+        channel.send({
+          type: 'broadcast',
+          event: 'large',
+          payload: largePayload,
+        }),
+        channel.send({ type: 'broadcast', event: 'small', payload: {} }),
+        channel.send({
+          type: 'broadcast',
+          event: 'binary',
+          payload: new ArrayBuffer(1),
+        }),
+      ])
+
+      expect(pushStub.mock.calls.map(([, args]) => args.event)).toEqual([
+        'large',
+        'small',
+        'binary',
+      ])
+    })
+
+    test('does not compress with another codec', async () => {
+      testSetup.socket.codec = new MessagePackCodec()
+      const channel = joinedChannel({ enabled: true })
+      const pushStub = vi.spyOn(channel, '_push')
+
+      await channel.send({
+        type: 'broadcast',
+        event: 'snapshot',
+        payload: largePayload,
+      })
+
+      expect(pushStub.mock.calls[0][1]).toEqual({
+        type: 'broadcast',
+        event: 'snapshot',
+        payload: largePayload,
+      })
+    })
+
+    test('does not compress without binary encoding', async () => {
+      testSetup.socket.serializer = new Serializer()
+      testSetup.socket.codec = testSetup.socket.serializer
+      const channel = joinedChannel({ enabled: true })
+      const pushStub = vi.spyOn(channel, '_push')
+
+      await channel.send({
+        type: 'broadcast',
+        event: 'snapshot',
+        payload: largePayload,
+      })
+
+      expect(pushStub.mock.calls[0][1].payload).toEqual(largePayload)
+    })
+
+    test('does not send compression config to the server', () => {
+      const channel = joinedChannel({ enabled: true })
+
+      expect(channel.joinPush.payload.config.broadcast).toEqual({})
+    })
+  })
+
   describe('HTTP fallback scenarios', () => {
     test.each([
       {
@@ -460,6 +761,25 @@ describe('send', () => {
       expect(result).toBe('error')
     })
 
+    test('rejects binary payloads when not subscribed', async () => {
+      const fetchStub = vi.fn()
+
+      const socket = new RealtimeClient(testSetup.url, {
+        fetch: fetchStub as unknown as typeof fetch,
+        params: { apikey: 'abc123' },
+      })
+      const channel = socket.channel('topic')
+
+      const result = await channel.send({
+        type: 'broadcast',
+        event: 'test',
+        payload: new Uint8Array([1, 2, 3]),
+      })
+
+      expect(result).toBe('error')
+      expect(fetchStub).not.toHaveBeenCalled()
+    })
+
     test('handles fetch timeout scenarios', async () => {
       // Test different timeout-related error scenarios
       const timeoutError = new Error('Request timeout')
@@ -482,4 +802,266 @@ describe('send', () => {
       expect(fetchStub).toHaveBeenCalled()
     })
   })
+
+  describe('sendDetailed', () => {
+    test('resolves with the WebSocket reply and its timing', async () => {
+      testSetup.socket.connect()
+      vi.spyOn(testSetup.socket.conn!, 'readyState', 'get').mockReturnValue(1)
+      vi.spyOn(testSetup.socket, '_makeRef').mockReturnValue('7')
+      const channel = testSetup.socket.channel('acked', {
+        config: { broadcast: { ack: true } },
+      })
+      channel.subscribe()
+      channel.state = 'joined'
+      const pushSpy = vi.spyOn(channel, '_push')
+
+      const sent = channel.sendDetailed({ type: 'broadcast', event: 'test' })
+      vi.advanceTimersByTime(25)
+      pushSpy.mock.results[0].value.trigger('error', { reason: 'RLS denied' })
+
+      expect(await sent).toEqual({
+        status: 'error',
+        response: { reason: 'RLS denied' },
+        via: 'ws',
+        latencyMs: 25,
+        ref: '7',
+        error: expect.objectContaining({ message: 'RLS denied' }),
+      })
+    })
+
+    test('resolves with the HTTP status and body of a rejected broadcast', async () => {
+      const fetchStub = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 403,
+        text: async () => '{"error":"unauthorized"}',
+      })
+      const socket = new RealtimeClient(testSetup.url, {
+        fetch: fetchStub as unknown as typeof fetch,
+        params: { apikey: 'abc123' },
+      })
+
+      const result = await socket
+        .channel('topic')
+        .sendDetailed({ type: 'broadcast', event: 'test' })
+
+      expect(result).toMatchObject({
+        status: 'error',
+        response: { error: 'unauthorized' },
+        via: 'http',
+        ref: null,
+        httpStatus: 403,
+      })
+      expect(result.error).toBeInstanceOf(RealtimeAuthError)
+    })
+
+    test('reports successful HTTP broadcasts', async () => {
+      const fetchStub = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 202,
+        body: { cancel: vi.fn() },
+      })
+      const socket = new RealtimeClient(testSetup.url, {
+        fetch: fetchStub as unknown as typeof fetch,
+        params: { apikey: 'abc123' },
+      })
+
+      const result = await socket
+        .channel('topic')
+        .sendDetailed({ type: 'broadcast', event: 'test' })
+
+      expect(result).toMatchObject({
+        status: 'ok',
+        response: null,
+        via: 'http',
+        ref: null,
+        httpStatus: 202,
+      })
+      expect(result.error).toBeUndefined()
+    })
+  })
+
+  describe('rate limiting', () => {
+    beforeEach(() => {
+      testSetup.socket.connect()
+      vi.spyOn(testSetup.socket.conn!, 'readyState', 'get').mockReturnValue(1)
+    })
+
+    const joinedChannel = (config = {}) => {
+      const channel = testSetup.socket.channel('limited', { config })
+      channel.subscribe()
+      channel.state = 'joined'
+      return channel
+    }
+
+    test('queues sends over the channel limit', async () => {
+      const channel = joinedChannel({ rateLimit: { rate: 10, burst: 1 } })
+      const pushSpy = vi.spyOn(channel, '_push')
+
+      const first = channel.send({ type: 'broadcast', event: 'e' })
+      const second = channel.send({ type: 'broadcast', event: 'e' })
+      await vi.advanceTimersByTimeAsync(0)
+      expect(pushSpy).toHaveBeenCalledTimes(1)
+
+      await vi.advanceTimersByTimeAsync(100)
+      expect(pushSpy).toHaveBeenCalledTimes(2)
+      expect(await Promise.all([first, second])).toEqual(['ok', 'ok'])
+    })
+
+    test('reports dropped sends as rate limited', async () => {
+      const channel = joinedChannel({
+        rateLimit: { rate: 1, policy: 'drop' },
+      })
+
+      await channel.send({ type: 'broadcast', event: 'e' })
+      const result = await channel.sendDetailed({
+        type: 'broadcast',
+        event: 'e',
+      })
+
+      expect(result).toMatchObject({
+        status: 'error',
+        via: 'ws',
+        error: { code: 'rate_limited' },
+      })
+    })
+
+    test('sends only the latest coalesced message per event', async () => {
+      const channel = joinedChannel({
+        rateLimit: { rate: 10, burst: 1, policy: 'coalesce' },
+      })
+      const pushSpy = vi.spyOn(channel, '_push')
+
+      const sent = [1, 2, 3].map((x) =>
+        channel.send({ type: 'broadcast', event: 'cursor', payload: { x } })
+      )
+      await vi.advanceTimersByTimeAsync(100)
+
+      expect(await Promise.all(sent)).toEqual(['ok', 'error', 'ok'])
+      expect(pushSpy.mock.calls.map(([, args]) => args.payload)).toEqual([
+        { x: 1 },
+        { x: 3 },
+      ])
+    })
+
+    test('applies the client limit across channels', async () => {
+      testSetup.socket.rateLimiter = new RateLimiter({
+        rate: 1,
+        policy: 'drop',
+      })
+      const first = joinedChannel()
+      const second = testSetup.socket.channel('other')
+      second.subscribe()
+      second.state = 'joined'
+
+      expect(await first.send({ type: 'broadcast', event: 'e' })).toBe('ok')
+      expect(await second.send({ type: 'broadcast', event: 'e' })).toBe('error')
+    })
+  })
+
+  describe('outbox', () => {
+    let outbox: Outbox
+
+    beforeEach(() => {
+      outbox = new Outbox(new MemoryOutboxStorage())
+      testSetup.socket.outbox = outbox
+    })
+
+    test('is created by the client option', () => {
+      const client = new RealtimeClient(testSetup.url, {
+        params: { apikey: '123456789' },
+        outbox: { ttl: 5000 },
+      })
+
+      expect(client.outbox).toBeInstanceOf(Outbox)
+      expect(client.outbox!.ttl).toBe(5000)
+    })
+
+    test('queues broadcasts and tracks sent while rejoining', async () => {
+      const pushSpy = vi.spyOn(channel, '_push')
+
+      const result = await channel.sendDetailed({
+        type: 'broadcast',
+        event: 'msg',
+        payload: { n: 1 },
+      })
+      await channel.track({ name: 'a' })
+
+      expect(result).toMatchObject({ status: 'ok', queued: true })
+      expect(pushSpy).not.toHaveBeenCalled()
+      expect(await outbox.entries(channel.topic)).toMatchObject([
+        { type: 'broadcast', event: 'msg', payload: { n: 1 } },
+        { type: 'presence', event: 'track', payload: { name: 'a' } },
+      ])
+    })
+
+    test('replays queued messages in order once joined', async () => {
+      await channel.send({ type: 'broadcast', event: 'first' })
+      await channel.track({ name: 'a' })
+      await channel.send({ type: 'broadcast', event: 'second' })
+      const pushSpy = vi.spyOn(channel, '_push')
+
+      joinPush.trigger('ok', {})
+      await vi.advanceTimersByTimeAsync(0)
+      pushSpy.mock.results[1].value.trigger('ok', {})
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(pushSpy.mock.calls.map(([, args]) => args.event)).toEqual([
+        'first',
+        'track',
+        'second',
+      ])
+      expect(await outbox.entries(channel.topic)).toEqual([])
+    })
+
+    test('keeps messages the server did not acknowledge for the next join', async () => {
+      await channel.track({ name: 'a' })
+      await channel.send({ type: 'broadcast', event: 'after' })
+      const pushSpy = vi.spyOn(channel, '_push')
+
+      joinPush.trigger('ok', {})
+      await vi.advanceTimersByTimeAsync(0)
+      pushSpy.mock.results[0].value.trigger('timeout', {})
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(pushSpy).toHaveBeenCalledTimes(1)
+      expect(await outbox.entries(channel.topic)).toHaveLength(2)
+    })
+
+    test('keeps unsent messages ahead of newer ones when the connection drops while replaying', async () => {
+      await channel.track({ name: 'a' })
+      await channel.send({ type: 'broadcast', event: 'after' })
+      const pushSpy = vi.spyOn(channel, '_push')
+
+      joinPush.trigger('ok', {})
+      await vi.advanceTimersByTimeAsync(0)
+      channel.state = 'errored'
+      await channel.send({ type: 'broadcast', event: 'newer' })
+      pushSpy.mock.results[0].value.trigger('error', {})
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(pushSpy).toHaveBeenCalledTimes(1)
+      expect(
+        (await outbox.entries(channel.topic)).map(({ event }) => event)
+      ).toEqual(['track', 'after', 'newer'])
+    })
+
+    test('sends messages without queueing when the channel is joined', async () => {
+      joinPush.trigger('ok', {})
+      const pushSpy = vi.spyOn(channel, '_push')
+
+      const result = await channel.sendDetailed({
+        type: 'broadcast',
+        event: 'live',
+      })
+
+      expect(result.queued).toBeUndefined()
+      expect(pushSpy).toHaveBeenCalledTimes(1)
+    })
+
+    test('does not queue messages of channels that were never subscribed', () => {
+      const other = testSetup.socket.channel('other')
+
+      expect(other._shouldQueue({ type: 'broadcast', event: 'e' })).toBe(false)
+    })
+  })
 })
@@ -648,3 +648,177 @@ describe('PostgreSQL payload transformation', () => {
     assert.deepEqual(deletePayload.old, { id: 2, name: 'deleted' }) // This tests lines 873-877
   })
 })
+
+describe('Postgres changes on a joined channel', () => {
+  const users = { event: 'INSERT', schema: 'public', table: 'users' }
+  const posts = { event: 'UPDATE', schema: 'public', table: 'posts' }
+  const change = (ids: string[], type = 'INSERT') => ({
+    ids,
+    data: {
+      type,
+      table: 'users',
+      record: { id: 1 },
+      schema: 'public',
+      columns: [{ name: 'id', type: 'int4' }],
+      commit_timestamp: '2000-01-01T00:01:01Z',
+      errors: [],
+    },
+  })
+  let usersSpy: ReturnType<typeof vi.fn>
+  let pushSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    vi.spyOn(testSetup.socket, 'isConnected').mockReturnValue(true)
+    vi.spyOn(testSetup.socket, 'push').mockImplementation(() => {})
+    usersSpy = vi.fn()
+    channel.on('postgres_changes', users, usersSpy)
+    channel.subscribe()
+    channel.joinPush._matchReceive({
+      status: 'ok',
+      response: {
+        postgres_changes: [{ ...users, id: 'users-1' }],
+        capabilities: ['postgres_changes_update'],
+      },
+    })
+    pushSpy = vi.spyOn(channel, '_push')
+  })
+
+  test('sends the filters once for listeners added together', async () => {
+    channel.on('postgres_changes', posts, vi.fn())
+    channel.on('postgres_changes', { ...posts, event: 'DELETE' }, vi.fn())
+    await Promise.resolve()
+
+    expect(pushSpy).toHaveBeenCalledTimes(1)
+    expect(pushSpy).toHaveBeenCalledWith(
+      'postgres_changes_update',
+      { postgres_changes: [users, posts, { ...posts, event: 'DELETE' }] },
+      defaultTimeout
+    )
+    expect(channel.joinPush.payload.config.postgres_changes).toEqual([
+      users,
+      posts,
+      { ...posts, event: 'DELETE' },
+    ])
+    expect(channel.state).toBe(CHANNEL_STATES.joined)
+  })
+
+  test('assigns the ids of the reply, delivering changes meanwhile', async () => {
+    const postsSpy = vi.fn()
+    channel.on('postgres_changes', posts, postsSpy)
+    await Promise.resolve()
+
+    channel._trigger('postgres_changes', change(['users-1']), '1')
+    expect(usersSpy).toHaveBeenCalledTimes(1)
+
+    pushSpy.mock.results[0].value._matchReceive({
+      status: 'ok',
+      response: {
+        postgres_changes: [
+          { ...users, id: 'users-1' },
+          { ...posts, id: 'posts-1' },
+        ],
+      },
+    })
+
+    expect(channel.bindings.postgres_changes.map(({ id }) => id)).toEqual([
+      'users-1',
+      'posts-1',
+    ])
+    channel._trigger('postgres_changes', change(['posts-1'], 'UPDATE'), '2')
+    expect(postsSpy).toHaveBeenCalledTimes(1)
+  })
+
+  test('stops delivering changes to removed listeners right away', async () => {
+    channel.off('postgres_changes', users, usersSpy)
+    await Promise.resolve()
+
+    channel._trigger('postgres_changes', change(['users-1']), '1')
+
+    expect(usersSpy).not.toHaveBeenCalled()
+    expect(pushSpy).toHaveBeenCalledWith(
+      'postgres_changes_update',
+      { postgres_changes: [] },
+      defaultTimeout
+    )
+  })
+
+  const leavePushes = () =>
+    vi
+      .mocked(testSetup.socket.push)
+      .mock.calls.map(([message]) => message)
+      .filter(({ event }) => event === 'phx_leave')
+
+  test('rejoins when the server refuses the update', async () => {
+    channel.on('postgres_changes', posts, vi.fn())
+    await Promise.resolve()
+
+    pushSpy.mock.results[0].value._matchReceive({
+      status: 'error',
+      response: { reason: 'unknown event' },
+    })
+
+    expect(leavePushes()).toHaveLength(1)
+  })
+
+  test('rejoins right away when the server cannot update in place', async () => {
+    channel.joinPush._matchReceive({
+      status: 'ok',
+      response: { postgres_changes: [{ ...users, id: 'users-1' }] },
+    })
+    channel.on('postgres_changes', posts, vi.fn())
+    await Promise.resolve()
+
+    expect(pushSpy).not.toHaveBeenCalled()
+    expect(leavePushes()).toHaveLength(1)
+    expect(channel.joinPush.payload.config.postgres_changes).toEqual([
+      users,
+      posts,
+    ])
+  })
+
+  test('rejoins when the reply does not match the filters', async () => {
+    channel.on('postgres_changes', posts, vi.fn())
+    await Promise.resolve()
+
+    pushSpy.mock.results[0].value._matchReceive({
+      status: 'ok',
+      response: { postgres_changes: [{ ...users, id: 'users-1' }] },
+    })
+
+    expect(leavePushes()).toHaveLength(1)
+  })
+
+  test('stays registered and keeps receiving changes after rejoining', async () => {
+    channel.joinPush.trigger('ok', {
+      postgres_changes: [{ ...users, id: 'users-1' }],
+    })
+    channel.on('postgres_changes', posts, vi.fn())
+    await Promise.resolve()
+
+    const [leave] = leavePushes()
+    channel._trigger(channel._replyEventName(leave.ref), {
+      status: 'ok',
+      response: {},
+    })
+
+    expect(channel.state).toBe(CHANNEL_STATES.joining)
+    channel.joinPush.trigger('ok', {
+      postgres_changes: [
+        { ...users, id: 'users-2' },
+        { ...posts, id: 'posts-2' },
+      ],
+    })
+
+    expect(channel.state).toBe(CHANNEL_STATES.joined)
+    expect(testSetup.socket.getChannels()).toContain(channel)
+    ;(testSetup.socket as any)._onConnMessage({
+      data: JSON.stringify({
+        topic: channel.topic,
+        event: 'postgres_changes',
+        payload: change(['users-2']),
+        ref: null,
+      }),
+    })
+    expect(usersSpy).toHaveBeenCalledTimes(1)
+  })
+})
@@ -3,6 +3,7 @@ import { describe, beforeEach, afterEach, test, vi, expect } from 'vitest'
 import RealtimeClient from '../src/RealtimeClient'
 import RealtimeChannel from '../src/RealtimeChannel'
 import { CHANNEL_STATES } from '../src/lib/constants'
+import { RealtimeTimeoutError } from '../src/lib/errors'
 import {
   setupRealtimeTest,
   cleanupRealtimeTest,
@@ -312,6 +313,15 @@ describe('joinPush', () => {
       helpers.receiveTimeout()
       expect(spyTimeout).toHaveBeenCalledTimes(1)
     })
+
+    test('reports a timeout error', () => {
+      assert.equal(joinPush.error(), null)
+      helpers.receiveTimeout()
+      expect(joinPush.error()).toBeInstanceOf(RealtimeTimeoutError)
+      expect(joinPush.error().message).toBe(
+        `phx_join on realtime:topic timed out after ${joinPush.timeout}ms`
+      )
+    })
   })
 
   describe("receives 'error'", () => {
@@ -331,6 +341,16 @@ describe('joinPush', () => {
       helpers.receiveError()
       expect(spyError).toHaveBeenCalledTimes(1)
     })
+
+    test('reports the error with the reply', () => {
+      helpers.receiveError()
+      expect(joinPush.error()).toMatchObject({
+        name: 'RealtimeError',
+        code: 'channel_error',
+        message: 'something went wrong',
+        reply: response,
+      })
+    })
   })
 })
 
@@ -0,0 +1,277 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import { RealtimeError } from '../src/lib/errors'
+import {
+  setupRealtimeTest,
+  cleanupRealtimeTest,
+  TestSetup,
+} from './helpers/setup'
+
+let testSetup: TestSetup
+
+beforeEach(() => {
+  testSetup = setupRealtimeTest()
+  vi.spyOn(testSetup.socket, 'isConnected').mockReturnValue(true)
+  vi.spyOn(testSetup.socket, 'push').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  cleanupRealtimeTest(testSetup)
+})
+
+describe('channelHandle', () => {
+  test('shares one channel between the handles of a topic', () => {
+    const first = testSetup.socket.channelHandle('room')
+    const second = testSetup.socket.channelHandle('room')
+
+    expect(first).not.toBe(second)
+    expect(first.channel).toBe(second.channel)
+    expect(testSetup.socket.getChannels()).toHaveLength(1)
+  })
+
+  test('throws when the options differ from those of the channel', () => {
+    testSetup.socket.channelHandle('room', { config: { private: true } })
+
+    expect(() =>
+      testSetup.socket.channelHandle('room', {
+        config: { private: true, broadcast: { self: true } },
+      })
+    ).toThrow(
+      expect.objectContaining({
+        code: 'config_mismatch',
+        message:
+          'channel realtime:room already exists with different options: self',
+      })
+    )
+    expect(() => testSetup.socket.channelHandle('room')).toThrow(RealtimeError)
+    expect(() =>
+      testSetup.socket.channelHandle('room', {
+        config: { private: true, broadcast: { self: false } },
+      })
+    ).not.toThrow()
+  })
+
+  test('joins once for all handles', () => {
+    const first = testSetup.socket.channelHandle('room')
+    const second = testSetup.socket.channelHandle('room')
+    const firstStatus = vi.fn()
+    const secondStatus = vi.fn()
+    const subscribeSpy = vi.spyOn(first.channel, 'subscribe')
+
+    first.subscribe(firstStatus)
+    second.subscribe(secondStatus)
+    first.channel.joinPush.trigger('ok', {})
+
+    expect(subscribeSpy).toHaveBeenCalledTimes(1)
+    expect(firstStatus).toHaveBeenCalledWith('SUBSCRIBED')
+    expect(secondStatus).toHaveBeenCalledWith('SUBSCRIBED')
+  })
+
+  test('reports the status of an already joined channel', () => {
+    const first = testSetup.socket.channelHandle('room').subscribe()
+    first.channel.joinPush.trigger('ok', {})
+    const status = vi.fn()
+
+    testSetup.socket.channelHandle('room').subscribe(status)
+    first.channel.joinPush.trigger('ok', {})
+
+    expect(status).toHaveBeenCalledTimes(1)
+    expect(status).toHaveBeenCalledWith('SUBSCRIBED')
+  })
+
+  test('waits for the next join of an errored channel', () => {
+    const first = testSetup.socket.channelHandle('room').subscribe()
+    first.channel.joinPush.trigger('error', { reason: 'denied' })
+    expect(first.channel.state).toBe('errored')
+    const status = vi.fn()
+
+    testSetup.socket.channelHandle('room').subscribe(status)
+    expect(status).not.toHaveBeenCalled()
+    first.channel.joinPush.resend(1000)
+    first.channel.joinPush.trigger('ok', {})
+
+    expect(status).toHaveBeenCalledTimes(1)
+    expect(status).toHaveBeenCalledWith('SUBSCRIBED')
+  })
+
+  test('stops reporting the status once the handle unsubscribes', async () => {
+    const first = testSetup.socket.channelHandle('room')
+    const status = vi.fn()
+    first.subscribe(status)
+    testSetup.socket.channelHandle('room').subscribe()
+
+    await first.unsubscribe()
+    first.channel._trigger('phx_error', { reason: 'crashed' })
+    first.channel._trigger('phx_close', {})
+    first.channel.joinPush.trigger('ok', {})
+
+    expect(status).not.toHaveBeenCalled()
+  })
+
+  test('removes its status hooks once the join is reported', () => {
+    const { joinPush } = testSetup.socket.channel('room').subscribe()
+    const hooks = joinPush.recHooks.length
+
+    testSetup.socket.channelHandle('room').subscribe(vi.fn())
+    testSetup.socket.channelHandle('room').subscribe(vi.fn())
+    joinPush.trigger('error', { reason: 'denied' })
+
+    expect(joinPush.recHooks).toHaveLength(hooks)
+  })
+
+  test('removes only the handlers of the handle that unsubscribes', async () => {
+    const onFirst = vi.fn()
+    const onSecond = vi.fn()
+    const first = testSetup.socket
+      .channelHandle('room')
+      .on('broadcast', { event: 'message' }, onFirst)
+      .subscribe()
+    testSetup.socket
+      .channelHandle('room')
+      .on('broadcast', { event: 'message' }, onSecond)
+      .subscribe()
+    first.channel.joinPush.trigger('ok', {})
+    const unsubscribeSpy = vi.spyOn(first.channel, 'unsubscribe')
+
+    expect(await first.unsubscribe()).toBe('ok')
+    first.channel._trigger('broadcast', { event: 'message' })
+
+    expect(unsubscribeSpy).not.toHaveBeenCalled()
+    expect(onFirst).not.toHaveBeenCalled()
+    expect(onSecond).toHaveBeenCalledTimes(1)
+  })
+
+  test('leaves once the last handle unsubscribes', async () => {
+    const first = testSetup.socket.channelHandle('room').subscribe()
+    const second = testSetup.socket.channelHandle('room').subscribe()
+    const unsubscribeSpy = vi.spyOn(first.channel, 'unsubscribe')
+
+    await first.unsubscribe()
+    await first.unsubscribe()
+    expect(unsubscribeSpy).not.toHaveBeenCalled()
+
+    await second.unsubscribe()
+    expect(unsubscribeSpy).toHaveBeenCalledTimes(1)
+    expect(testSetup.socket.getChannels()).toEqual([])
+    expect(testSetup.socket.channelHandle('room').channel).not.toBe(
+      first.channel
+    )
+  })
+
+  test('does not leave a channel also obtained with channel()', async () => {
+    const channel = testSetup.socket.channel('room')
+    channel.subscribe()
+    const handle = testSetup.socket.channelHandle('room').subscribe()
+    const unsubscribeSpy = vi.spyOn(channel, 'unsubscribe')
+
+    expect(handle.channel).toBe(channel)
+    await handle.unsubscribe()
+
+    expect(unsubscribeSpy).not.toHaveBeenCalled()
+    expect(testSetup.socket.getChannels()).toEqual([channel])
+  })
+
+  test('does not leave when channel() is called after the handle', async () => {
+    const handle = testSetup.socket.channelHandle('room').subscribe()
+    const channel = testSetup.socket.channel('room')
+    const unsubscribeSpy = vi.spyOn(channel, 'unsubscribe')
+
+    await handle.unsubscribe()
+    expect(unsubscribeSpy).not.toHaveBeenCalled()
+
+    await testSetup.socket.removeChannel(channel)
+    expect(testSetup.socket.getChannels()).toEqual([])
+  })
+
+  test('sends through the shared channel', async () => {
+    const handle = testSetup.socket.channelHandle('room')
+    const sendSpy = vi.spyOn(handle.channel, 'send').mockResolvedValue('ok')
+    const args = { type: 'broadcast' as const, event: 'message' }
+
+    expect(await handle.send(args)).toBe('ok')
+    expect(sendSpy).toHaveBeenCalledWith(args, {})
+  })
+})
+
+describe('acquireChannel', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  test('subscribes to the channel', () => {
+    const handle = testSetup.socket.acquireChannel('room', {
+      config: { private: true },
+    })
+
+    expect(handle.channel.state).toBe('joining')
+    expect(handle.channel.private).toBe(true)
+  })
+
+  test('leaves only when the last holder releases the channel', async () => {
+    const first = testSetup.socket.acquireChannel('room')
+    const second = testSetup.socket.acquireChannel('room')
+    const unsubscribeSpy = vi.spyOn(first.channel, 'unsubscribe')
+
+    await first.release()
+    expect(unsubscribeSpy).not.toHaveBeenCalled()
+
+    await second.release()
+    expect(unsubscribeSpy).toHaveBeenCalledTimes(1)
+  })
+
+  test('lingers before leaving', async () => {
+    const handle = testSetup.socket.acquireChannel('room', {
+      config: {},
+      lingerMs: 1000,
+    })
+    const unsubscribeSpy = vi.spyOn(handle.channel, 'unsubscribe')
+
+    expect(await handle.release()).toBe('ok')
+    vi.advanceTimersByTime(999)
+    expect(unsubscribeSpy).not.toHaveBeenCalled()
+
+    vi.advanceTimersByTime(1)
+    expect(unsubscribeSpy).toHaveBeenCalledTimes(1)
+  })
+
+  test('reuses a lingering channel acquired again', async () => {
+    const first = testSetup.socket.acquireChannel('room', {
+      config: {},
+      lingerMs: 1000,
+    })
+    first.channel.joinPush.trigger('ok', {})
+    const unsubscribeSpy = vi.spyOn(first.channel, 'unsubscribe')
+    const subscribeSpy = vi.spyOn(first.channel, 'subscribe')
+
+    await first.release()
+    vi.advanceTimersByTime(500)
+    const second = testSetup.socket.acquireChannel('room')
+    vi.advanceTimersByTime(1000)
+
+    expect(second.channel).toBe(first.channel)
+    expect(second.channel.state).toBe('joined')
+    expect(subscribeSpy).not.toHaveBeenCalled()
+    expect(unsubscribeSpy).not.toHaveBeenCalled()
+  })
+
+  test('keeps a lingering channel obtained again with channel()', async () => {
+    const handle = testSetup.socket.acquireChannel('room', {
+      config: {},
+      lingerMs: 1000,
+    })
+    handle.channel.joinPush.trigger('ok', {})
+    const unsubscribeSpy = vi.spyOn(handle.channel, 'unsubscribe')
+
+    await handle.release()
+    const channel = testSetup.socket.channel('room')
+    vi.advanceTimersByTime(1000)
+
+    expect(channel).toBe(handle.channel)
+    expect(channel.state).toBe('joined')
+    expect(unsubscribeSpy).not.toHaveBeenCalled()
+    expect(testSetup.socket.getChannels()).toContain(channel)
+  })
+})
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import RealtimeChannelPattern from '../src/RealtimeChannelPattern'
+import { RealtimeError } from '../src/lib/errors'
+import {
+  setupRealtimeTest,
+  cleanupRealtimeTest,
+  TestSetup,
+} from './helpers/setup'
+
+let testSetup: TestSetup
+let rooms: RealtimeChannelPattern
+
+beforeEach(() => {
+  testSetup = setupRealtimeTest()
+  vi.spyOn(testSetup.socket, 'isConnected').mockReturnValue(true)
+  vi.spyOn(testSetup.socket, 'push').mockImplementation(() => {})
+  rooms = testSetup.socket.channelPattern('room:*')
+})
+
+afterEach(() => {
+  cleanupRealtimeTest(testSetup)
+})
+
+describe('RealtimeChannelPattern', () => {
+  test('matches one segment per wildcard', () => {
+    const messages = testSetup.socket.channelPattern('org.*:room:*')
+
+    expect(rooms.match('room:123')).toEqual({
+      topic: 'room:123',
+      segments: ['123'],
+    })
+    expect(rooms.match('realtime:room:abc')).toEqual({
+      topic: 'room:abc',
+      segments: ['abc'],
+    })
+    expect(messages.match('org.acme:room:1')?.segments).toEqual(['acme', '1'])
+    expect(rooms.match('room:1:chat')).toBeNull()
+    expect(rooms.match('room:')).toBeNull()
+    expect(messages.match('orgXacme:room:1')).toBeNull()
+  })
+
+  test('subscribes to matching topics with the pattern options', () => {
+    const pattern = testSetup.socket.channelPattern('room:*', {
+      config: { private: true },
+    })
+
+    const channel = pattern.add('room:123')
+
+    expect(channel.topic).toBe('realtime:room:123')
+    expect(channel.private).toBe(true)
+    expect(channel.state).toBe('joining')
+    expect(pattern.add('realtime:room:123')).toBe(channel)
+    expect(testSetup.socket.getChannels()).toEqual([channel])
+  })
+
+  test('refuses topics not matching the pattern', () => {
+    expect(() => rooms.add('lobby')).toThrow(RealtimeError)
+    expect(testSetup.socket.getChannels()).toEqual([])
+  })
+
+  test('refuses topics subscribed outside the pattern', () => {
+    const channel = testSetup.socket.channel('room:1').subscribe()
+
+    expect(() => rooms.add('room:1')).toThrow(
+      'channel room:1 was subscribed outside the pattern room:*'
+    )
+    expect(rooms.channels.size).toBe(0)
+    expect(channel.state).toBe('joining')
+  })
+
+  test('adopts the unsubscribed channel of a topic', () => {
+    const channel = testSetup.socket.channel('room:1')
+
+    expect(rooms.add('room:1')).toBe(channel)
+    expect(channel.state).toBe('joining')
+  })
+
+  test('dispatches messages with the matched topic', () => {
+    const spy = vi.fn()
+    const first = rooms.add('room:1')
+    rooms.on('broadcast', { event: 'message' }, spy)
+    const second = rooms.add('room:2')
+
+    first._trigger('broadcast', { event: 'message', payload: { n: 1 } })
+    second._trigger('broadcast', { event: 'message', payload: { n: 2 } })
+    second._trigger('broadcast', { event: 'other', payload: { n: 3 } })
+
+    expect(spy.mock.calls).toEqual([
+      [
+        { event: 'message', payload: { n: 1 } },
+        { topic: 'room:1', segments: ['1'] },
+      ],
+      [
+        { event: 'message', payload: { n: 2 } },
+        { topic: 'room:2', segments: ['2'] },
+      ],
+    ])
+  })
+
+  test('forgets topics once their channel closes', async () => {
+    const channel = rooms.add('room:1')
+    rooms.add('room:2')
+
+    expect(await rooms.remove('room:1')).toBe('ok')
+
+    expect([...rooms.channels.keys()]).toEqual(['room:2'])
+    expect(testSetup.socket.getChannels()).not.toContain(channel)
+    expect(rooms.add('room:1')).not.toBe(channel)
+  })
+
+  test('unsubscribes from every topic', async () => {
+    rooms.add('room:1')
+    rooms.add('room:2')
+
+    expect(await rooms.unsubscribe()).toEqual(['ok', 'ok'])
+
+    expect(rooms.channels.size).toBe(0)
+    expect(testSetup.socket.getChannels()).toEqual([])
+  })
+})
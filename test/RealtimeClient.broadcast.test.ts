@@ -0,0 +1,205 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import RealtimeClient from '../src/RealtimeClient'
+
+const URL = 'wss://example.com/realtime/v1'
+const ENDPOINT = 'https://example.com/realtime/v1/api/broadcast'
+
+let fetchStub: ReturnType<typeof vi.fn>
+
+const createClient = (options = {}) =>
+  new RealtimeClient(URL, {
+    fetch: fetchStub as unknown as typeof fetch,
+    params: { apikey: 'abc123' },
+    ...options,
+  })
+
+const sentMessages = (call = 0) =>
+  JSON.parse(fetchStub.mock.calls[call][1].body).messages
+
+beforeEach(() => {
+  fetchStub = vi.fn().mockResolvedValue({
+    ok: true,
+    status: 202,
+    body: { cancel: vi.fn() },
+  })
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('broadcastBatch', () => {
+  test('sends all messages in one request', async () => {
+    const client = createClient()
+
+    const results = await client.broadcastBatch([
+      { topic: 'realtime:room:1', event: 'update', payload: { n: 1 } },
+      { topic: 'room:2', event: 'update', payload: { n: 2 }, private: true },
+    ])
+
+    expect(fetchStub).toHaveBeenCalledTimes(1)
+    expect(fetchStub.mock.calls[0][0]).toBe(ENDPOINT)
+    expect(sentMessages()).toEqual([
+      { topic: 'room:1', event: 'update', payload: { n: 1 }, private: false },
+      { topic: 'room:2', event: 'update', payload: { n: 2 }, private: true },
+    ])
+    expect(results).toHaveLength(2)
+    results.forEach((result) =>
+      expect(result).toMatchObject({
+        status: 'ok',
+        via: 'http',
+        httpStatus: 202,
+      })
+    )
+  })
+
+  test('reports a rejected request for every message', async () => {
+    fetchStub.mockResolvedValue({
+      ok: false,
+      status: 400,
+      text: async () => '{"error":"invalid"}',
+    })
+    const client = createClient()
+
+    const results = await client.broadcastBatch([
+      { topic: 'a', event: 'e' },
+      { topic: 'b', event: 'e' },
+    ])
+
+    expect(results.map((result) => result.status)).toEqual(['error', 'error'])
+    expect(results[1]).toMatchObject({
+      httpStatus: 400,
+      response: { error: 'invalid' },
+    })
+  })
+
+  test('fails binary payloads without sending them', async () => {
+    const client = createClient()
+
+    const results = await client.broadcastBatch([
+      { topic: 'a', event: 'e', payload: new Uint8Array([1]) },
+      { topic: 'b', event: 'e' },
+    ])
+
+    expect(sentMessages()).toEqual([{ topic: 'b', event: 'e', private: false }])
+    expect(results[0]).toMatchObject({
+      status: 'error',
+      error: { code: 'unsupported' },
+    })
+    expect(results[1].status).toBe('ok')
+  })
+
+  test('does not send a request when there is nothing to send', async () => {
+    const client = createClient()
+
+    expect(await client.broadcastBatch([])).toEqual([])
+    expect(fetchStub).not.toHaveBeenCalled()
+  })
+})
+
+describe('broadcastBatching', () => {
+  test('coalesces HTTP sends across channels into one request', async () => {
+    vi.useFakeTimers()
+    const client = createClient({ broadcastBatching: { windowMs: 5 } })
+
+    const sent = Promise.all([
+      client.channel('a').send({ type: 'broadcast', event: 'e', payload: 1 }),
+      client
+        .channel('b', { config: { private: true } })
+        .send({ type: 'broadcast', event: 'e', payload: 2 }),
+    ])
+    await vi.advanceTimersByTimeAsync(5)
+
+    expect(await sent).toEqual(['ok', 'ok'])
+    expect(fetchStub).toHaveBeenCalledTimes(1)
+    expect(sentMessages()).toEqual([
+      { topic: 'a', event: 'e', payload: 1, private: false },
+      { topic: 'b', event: 'e', payload: 2, private: true },
+    ])
+  })
+
+  test('is disabled by default', () => {
+    expect(createClient().broadcastBatcher).toBeNull()
+  })
+})
+
+describe('broadcastRetry', () => {
+  const reply = (status: number, retryAfter?: string) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    body: { cancel: vi.fn() },
+    headers: new Headers(retryAfter ? { 'Retry-After': retryAfter } : {}),
+    text: async () => '',
+  })
+  const send = (client: RealtimeClient) =>
+    client.channel('a').sendDetailed({ type: 'broadcast', event: 'e' })
+
+  test('is disabled by default', async () => {
+    fetchStub.mockResolvedValue(reply(503))
+
+    const result = await send(createClient())
+
+    expect(fetchStub).toHaveBeenCalledTimes(1)
+    expect(result).toMatchObject({ status: 'error', attempts: 1 })
+  })
+
+  test('retries replies asking to try again later, honoring Retry-After', async () => {
+    vi.useFakeTimers()
+    fetchStub
+      .mockResolvedValueOnce(reply(429, '2'))
+      .mockResolvedValueOnce(reply(202))
+    const client = createClient({
+      broadcastRetry: { base: 10, jitter: 'none' },
+    })
+
+    const sent = send(client)
+    await vi.advanceTimersByTimeAsync(1999)
+    expect(fetchStub).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+
+    expect(await sent).toMatchObject({ status: 'ok', attempts: 2 })
+  })
+
+  test('does not retry network errors', async () => {
+    fetchStub.mockRejectedValue(new TypeError('fetch failed'))
+    const client = createClient({
+      broadcastRetry: { base: 1, jitter: 'none', maxAttempts: 4 },
+    })
+
+    const result = await send(client)
+
+    expect(fetchStub).toHaveBeenCalledTimes(1)
+    expect(result).toMatchObject({
+      status: 'error',
+      attempts: 1,
+      error: { code: 'transport' },
+    })
+  })
+
+  test('does not retry failures that may have been broadcast', async () => {
+    fetchStub.mockResolvedValue(reply(500))
+    const client = createClient({ broadcastRetry: { base: 1 } })
+
+    const result = await send(client)
+
+    expect(fetchStub).toHaveBeenCalledTimes(1)
+    expect(result.attempts).toBe(1)
+  })
+
+  test('waits at most the maximum delay when Retry-After is longer', async () => {
+    vi.useFakeTimers()
+    fetchStub
+      .mockResolvedValueOnce(reply(503, '60'))
+      .mockResolvedValueOnce(reply(202))
+    const client = createClient({
+      broadcastRetry: { base: 10, max: 5000, jitter: 'none' },
+    })
+
+    const sent = send(client)
+    await vi.advanceTimersByTimeAsync(4999)
+    expect(fetchStub).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+
+    expect(await sent).toMatchObject({ status: 'ok', attempts: 2 })
+  })
+})
@@ -191,7 +191,7 @@ describe('heartbeatCallback option', () => {
     // Verify both calls were made
     expect(mockCallback).toHaveBeenCalledTimes(2)
     expect(mockCallback).toHaveBeenNthCalledWith(1, 'sent')
-    expect(mockCallback).toHaveBeenNthCalledWith(2, 'ok')
+    expect(mockCallback).toHaveBeenNthCalledWith(2, 'ok', expect.any(Number))
   })
 
   test('should handle heartbeatCallback errors gracefully in sendHeartbeat', async () => {
@@ -324,3 +324,178 @@ describe('heartbeatCallback option', () => {
     expect(mockCallback).toHaveBeenCalledTimes(statuses.length)
   })
 })
+
+describe('connection stats', () => {
+  const connect = (socket: RealtimeClient) => {
+    socket.connect()
+    socket.conn = {
+      onmessage: null as any,
+      readyState: MockWebSocket.OPEN,
+      send: vi.fn(),
+      close: vi.fn(),
+    } as any
+  }
+
+  const reply = (socket: RealtimeClient, ref: string | null) =>
+    socket['_onConnMessage']({
+      data: JSON.stringify({
+        topic: 'phoenix',
+        event: 'phx_reply',
+        payload: { status: 'ok' },
+        ref,
+      }),
+    })
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  test('passes the heartbeat round-trip time to heartbeatCallback', async () => {
+    const mockCallback = vi.fn()
+    const socket = new RealtimeClient(testSetup.url, {
+      params: { apikey: '123456789' },
+      heartbeatCallback: mockCallback,
+    })
+    connect(socket)
+
+    await socket.sendHeartbeat()
+    vi.advanceTimersByTime(42)
+    reply(socket, socket.pendingHeartbeatRef)
+
+    expect(mockCallback).toHaveBeenLastCalledWith('ok', 42)
+  })
+
+  test('aggregates round-trip times and missed heartbeats', async () => {
+    const socket = new RealtimeClient(testSetup.url, {
+      params: { apikey: '123456789' },
+    })
+    connect(socket)
+
+    expect(socket.getConnectionStats()).toEqual({
+      samples: 0,
+      missed: 0,
+      lastRttMs: null,
+      minRttMs: null,
+      avgRttMs: null,
+      p95RttMs: null,
+      jitterMs: null,
+    })
+
+    for (const rtt of [30, 50, 40]) {
+      await socket.sendHeartbeat()
+      vi.advanceTimersByTime(rtt)
+      reply(socket, socket.pendingHeartbeatRef)
+    }
+    await socket.sendHeartbeat()
+    await socket.sendHeartbeat() // no reply to the previous heartbeat
+
+    expect(socket.getConnectionStats()).toEqual({
+      samples: 3,
+      missed: 1,
+      lastRttMs: 40,
+      minRttMs: 30,
+      avgRttMs: 40,
+      p95RttMs: 50,
+      jitterMs: 15,
+    })
+  })
+
+  test('ignores replies to other refs', async () => {
+    const socket = new RealtimeClient(testSetup.url, {
+      params: { apikey: '123456789' },
+    })
+    connect(socket)
+
+    await socket.sendHeartbeat()
+    reply(socket, 'unknown')
+
+    expect(socket.getConnectionStats().samples).toBe(0)
+  })
+})
+
+describe('adaptive heartbeat', () => {
+  let socket: RealtimeClient
+  let mockCallback: ReturnType<typeof vi.fn>
+
+  const reply = (latencyMs: number) => {
+    vi.advanceTimersByTime(latencyMs)
+    socket['_onConnMessage']({
+      data: JSON.stringify({
+        topic: 'phoenix',
+        event: 'phx_reply',
+        payload: { status: 'ok' },
+        ref: socket.pendingHeartbeatRef,
+      }),
+    })
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    mockCallback = vi.fn()
+    socket = new RealtimeClient(testSetup.url, {
+      params: { apikey: '123456789' },
+      heartbeatIntervalMs: 20000,
+      heartbeatCallback: mockCallback,
+      adaptiveHeartbeat: { slowRttMs: 1000, maxMissed: 1 },
+    })
+    socket.connect()
+    socket.conn = {
+      readyState: MockWebSocket.OPEN,
+      send: vi.fn(),
+      close: vi.fn(),
+    } as any
+    socket['_onConnOpen']()
+  })
+
+  afterEach(() => {
+    socket.disconnect()
+    vi.useRealTimers()
+  })
+
+  test('shortens the interval when replies are slow', async () => {
+    await socket.sendHeartbeat()
+    reply(1500)
+
+    expect(socket.adaptiveHeartbeat!.intervalMs).toBe(10000)
+    const spy = vi.spyOn(socket, 'sendHeartbeat')
+    vi.advanceTimersByTime(10000)
+    expect(spy).toHaveBeenCalledTimes(1)
+  })
+
+  test('tolerates missed replies before closing the connection', async () => {
+    await socket.sendHeartbeat()
+    await socket.sendHeartbeat()
+
+    expect(mockCallback).toHaveBeenCalledWith('missed')
+    expect(socket.conn!.close).not.toHaveBeenCalled()
+    expect(socket.pendingHeartbeatRef).not.toBe(null)
+    expect(socket.adaptiveHeartbeat!.intervalMs).toBe(4000)
+
+    await socket.sendHeartbeat()
+
+    expect(mockCallback).toHaveBeenLastCalledWith('timeout')
+    expect(socket.conn!.close).toHaveBeenCalledWith(1000, 'heartbeat timeout')
+    expect(socket.getConnectionStats().missed).toBe(2)
+  })
+
+  test('resets the interval when the connection reopens', async () => {
+    await socket.sendHeartbeat()
+    reply(1500)
+
+    socket['_onConnOpen']()
+
+    expect(socket.adaptiveHeartbeat!.intervalMs).toBe(20000)
+  })
+
+  test('keeps a fixed interval by default', () => {
+    const fixed = new RealtimeClient(testSetup.url, {
+      params: { apikey: '123456789' },
+    })
+
+    expect(fixed.adaptiveHeartbeat).toBe(null)
+  })
+})
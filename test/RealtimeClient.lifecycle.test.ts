@@ -44,6 +44,10 @@ describe('constructor', () => {
       close: [],
       error: [],
       message: [],
+      reconnecting: [],
+      reconnected: [],
+      gaveUp: [],
+      stateChange: [],
     })
     assert.equal(socket.transport, expected.transport)
     assert.equal(socket.timeout, expected.timeout)
@@ -223,6 +227,96 @@ describe('Connection state management', () => {
   })
 })
 
+describe('lifecycle events', () => {
+  test('calls open callbacks until unsubscribed', () => {
+    const callback = vi.fn()
+    const unsubscribe = testSetup.socket.on('open', callback)
+
+    testSetup.socket.connect()
+    testSetup.socket.conn?.onopen?.(new Event('open'))
+    unsubscribe()
+    testSetup.socket.conn?.onopen?.(new Event('open'))
+
+    expect(callback).toHaveBeenCalledTimes(1)
+    expect(testSetup.socket.stateChangeCallbacks.open).toEqual([])
+  })
+
+  test('passes the close event to close callbacks', () => {
+    const callback = vi.fn()
+    testSetup.socket.on('close', callback)
+    const closeEvent = new CloseEvent('close', {
+      code: 4000,
+      reason: 'going away',
+    })
+
+    testSetup.socket.connect()
+    testSetup.socket.conn?.onclose?.(closeEvent)
+
+    expect(callback).toHaveBeenCalledWith(closeEvent)
+    expect(callback.mock.calls[0][0].code).toBe(4000)
+    expect(callback.mock.calls[0][0].reason).toBe('going away')
+  })
+
+  test('passes messages to message callbacks', () => {
+    const callback = vi.fn()
+    testSetup.socket.on('message', callback)
+    const message = { topic: 'topic', event: 'event', payload: {}, ref: '1' }
+
+    testSetup.socket._onConnMessage({ data: JSON.stringify(message) })
+
+    expect(callback).toHaveBeenCalledWith(message)
+  })
+
+  test('reports connection state transitions', () => {
+    const callback = vi.fn()
+    testSetup.socket.on('stateChange', callback)
+
+    testSetup.socket.connect()
+    testSetup.socket.conn?.onopen?.(new Event('open'))
+    testSetup.socket.disconnect()
+
+    expect(callback.mock.calls.map(([change]) => change)).toEqual([
+      { previous: 'closed', next: 'connecting' },
+      { previous: 'connecting', next: 'open' },
+      { previous: 'open', next: 'closing' },
+    ])
+  })
+
+  test('reports reconnection attempts and recovery', async () => {
+    vi.useFakeTimers()
+    const reconnecting = vi.fn()
+    const reconnected = vi.fn()
+    const close = vi.fn()
+    testSetup.socket.on('reconnecting', reconnecting)
+    testSetup.socket.on('reconnected', reconnected)
+    testSetup.socket.on('close', close)
+
+    testSetup.socket.connect()
+    testSetup.socket.conn?.onopen?.(new Event('open'))
+    testSetup.socket.conn?.onclose?.(new CloseEvent('close', { code: 1006 }))
+
+    expect(close).toHaveBeenCalledBefore(reconnecting)
+    expect(reconnecting).toHaveBeenCalledWith({ attempt: 1, delayMs: 1000 })
+
+    await vi.advanceTimersByTimeAsync(1010)
+    testSetup.socket.conn?.onopen?.(new Event('open'))
+
+    expect(reconnected).toHaveBeenCalledWith({ attempts: 1 })
+    vi.useRealTimers()
+  })
+
+  test('does not report reconnection after a manual disconnect', () => {
+    const reconnecting = vi.fn()
+    testSetup.socket.on('reconnecting', reconnecting)
+
+    testSetup.socket.connect()
+    testSetup.socket.conn?.onopen?.(new Event('open'))
+    testSetup.socket.disconnect()
+
+    expect(reconnecting).not.toHaveBeenCalled()
+  })
+})
+
 describe('Race condition prevention', () => {
   test('should prevent multiple simultaneous connection attempts', () => {
     // Make multiple rapid connection attempts
@@ -1,6 +1,8 @@
 import assert from 'assert'
 import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
 import { WebSocket as MockWebSocket } from 'mock-socket'
+import { CHANNEL_STATES } from '../src/lib/constants'
+import { RealtimeTransportError } from '../src/lib/errors'
 import {
   setupRealtimeTest,
   cleanupRealtimeTest,
@@ -100,6 +102,288 @@ describe('Reconnection timer logic', () => {
   })
 })
 
+describe('backoff policy', () => {
+  const closeEvent = () =>
+    new CloseEvent('close', { code: 1006, reason: '', wasClean: false })
+
+  beforeEach(() => {
+    cleanupRealtimeTest(testSetup)
+    testSetup = setupRealtimeTest({
+      backoff: { base: 100, factor: 2, max: 1000, jitter: 'none' },
+    })
+  })
+
+  test('uses the policy for reconnects and rejoins', () => {
+    const channel = testSetup.socket.channel('topic')
+
+    expect(testSetup.socket.reconnectTimer!.timerCalc(3)).toBe(400)
+    expect(channel.rejoinTimer.timerCalc(5)).toBe(1000)
+  })
+
+  test('reports the policy delay when reconnecting', () => {
+    const reconnecting = vi.fn()
+    testSetup.socket.on('reconnecting', reconnecting)
+    testSetup.socket.connect()
+
+    testSetup.socket.conn?.onclose?.(closeEvent())
+
+    expect(reconnecting).toHaveBeenCalledWith({ attempt: 1, delayMs: 100 })
+  })
+
+  test('gives up reconnecting once attempts are exhausted', () => {
+    cleanupRealtimeTest(testSetup)
+    testSetup = setupRealtimeTest({ backoff: { maxAttempts: 2 } })
+    const reconnecting = vi.fn()
+    const gaveUp = vi.fn()
+    testSetup.socket.on('reconnecting', reconnecting)
+    testSetup.socket.on('gaveUp', gaveUp)
+    testSetup.socket.connect()
+
+    testSetup.socket.reconnectTimer!.tries = 2
+    testSetup.socket.conn?.onclose?.(closeEvent())
+
+    expect(reconnecting).not.toHaveBeenCalled()
+    expect(gaveUp).toHaveBeenCalledWith({ attempts: 2 })
+    expect(testSetup.socket.reconnectTimer!.timer).toBe(undefined)
+  })
+
+  test('starts over when connecting manually after giving up', () => {
+    cleanupRealtimeTest(testSetup)
+    testSetup = setupRealtimeTest({ backoff: { maxAttempts: 2 } })
+    const reconnecting = vi.fn()
+    testSetup.socket.on('reconnecting', reconnecting)
+    testSetup.socket.connect()
+    testSetup.socket.reconnectTimer!.tries = 2
+    testSetup.socket.conn?.onclose?.(closeEvent())
+
+    testSetup.socket.connect()
+    expect(testSetup.socket.reconnectTimer!.tries).toBe(0)
+    testSetup.socket.conn?.onclose?.(closeEvent())
+
+    expect(reconnecting).toHaveBeenCalledWith(
+      expect.objectContaining({ attempt: 1 })
+    )
+  })
+
+  test('gives up rejoining a channel once attempts are exhausted', () => {
+    cleanupRealtimeTest(testSetup)
+    testSetup = setupRealtimeTest({ backoff: { maxAttempts: 1 } })
+    const gaveUp = vi.fn()
+    testSetup.socket.on('gaveUp', gaveUp)
+    const channel = testSetup.socket.channel('topic')
+    channel.state = CHANNEL_STATES.joined
+
+    channel.rejoinTimer.tries = 1
+    channel._trigger('phx_error')
+
+    expect(gaveUp).toHaveBeenCalledWith({
+      attempts: 1,
+      topic: 'realtime:topic',
+    })
+    expect(channel.rejoinTimer.timer).toBe(undefined)
+  })
+
+  test('does not spend rejoin attempts while the socket is down', () => {
+    cleanupRealtimeTest(testSetup)
+    testSetup = setupRealtimeTest({
+      useFakeTimers: true,
+      backoff: { base: 100, max: 100, jitter: 'none', maxAttempts: 2 },
+    })
+    const gaveUp = vi.fn()
+    testSetup.socket.on('gaveUp', gaveUp)
+    const isConnected = vi
+      .spyOn(testSetup.socket, 'isConnected')
+      .mockReturnValue(false)
+    vi.spyOn(testSetup.socket, 'push').mockImplementation(() => {})
+    const channel = testSetup.socket.channel('topic')
+    channel.state = CHANNEL_STATES.joined
+
+    channel._trigger('phx_error')
+    vi.advanceTimersByTime(1000)
+
+    expect(gaveUp).not.toHaveBeenCalled()
+    expect(channel.rejoinTimer.tries).toBe(0)
+
+    isConnected.mockReturnValue(true)
+    vi.advanceTimersByTime(100)
+
+    expect(channel.state).toBe(CHANNEL_STATES.joining)
+    expect(testSetup.socket.push).toHaveBeenCalledWith(
+      expect.objectContaining({ topic: 'realtime:topic', event: 'phx_join' })
+    )
+  })
+
+  test('rejoins errored channels with a full set of attempts on reconnect', () => {
+    cleanupRealtimeTest(testSetup)
+    testSetup = setupRealtimeTest({ backoff: { maxAttempts: 1 } })
+    const gaveUp = vi.fn()
+    testSetup.socket.on('gaveUp', gaveUp)
+    const channel = testSetup.socket.channel('topic')
+    channel.state = CHANNEL_STATES.errored
+    channel.rejoinTimer.tries = 1
+
+    testSetup.socket.connect()
+    testSetup.socket.conn?.onopen?.(new Event('open'))
+
+    expect(channel.rejoinTimer.tries).toBe(0)
+    expect(channel.rejoinTimer.timer).not.toBe(undefined)
+    expect(gaveUp).not.toHaveBeenCalled()
+  })
+})
+
+describe('network awareness', () => {
+  let online: boolean
+  let visibilityState: DocumentVisibilityState
+
+  const closeEvent = () =>
+    new CloseEvent('close', { code: 1006, reason: '', wasClean: false })
+
+  beforeEach(() => {
+    cleanupRealtimeTest(testSetup)
+    testSetup = setupRealtimeTest({
+      connectivity: { hiddenTimeoutMs: 1000 },
+    })
+    online = true
+    visibilityState = 'visible'
+    vi.spyOn(navigator, 'onLine', 'get').mockImplementation(() => online)
+    vi.spyOn(document, 'visibilityState', 'get').mockImplementation(
+      () => visibilityState
+    )
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  test('does not schedule reconnects while offline', () => {
+    testSetup.socket.connect()
+    online = false
+    window.dispatchEvent(new Event('offline'))
+
+    testSetup.socket.conn?.onclose?.(closeEvent())
+
+    expect(testSetup.socket.reconnectTimer!.timer).toBe(undefined)
+  })
+
+  test('pauses a scheduled reconnect when going offline', () => {
+    testSetup.socket.connect()
+    testSetup.socket.conn?.onclose?.(closeEvent())
+    expect(testSetup.socket.reconnectTimer!.timer).toBeTruthy()
+
+    online = false
+    window.dispatchEvent(new Event('offline'))
+
+    expect(testSetup.socket.reconnectTimer!.timer).toBe(undefined)
+  })
+
+  test('reconnects with a full set of attempts when back online', async () => {
+    vi.useFakeTimers()
+    const reconnecting = vi.fn()
+    testSetup.socket.on('reconnecting', reconnecting)
+    testSetup.socket.connect()
+    online = false
+    window.dispatchEvent(new Event('offline'))
+    testSetup.socket.reconnectTimer!.tries = 3
+    testSetup.socket.conn?.onclose?.(closeEvent())
+    vi.spyOn(testSetup.socket, 'isConnected').mockReturnValue(false)
+    const connectSpy = vi.spyOn(testSetup.socket, 'connect')
+
+    online = true
+    window.dispatchEvent(new Event('online'))
+    expect(reconnecting).toHaveBeenCalledWith({ attempt: 1, delayMs: 1000 })
+    await vi.advanceTimersByTimeAsync(1010)
+
+    await vi.waitFor(() => expect(connectSpy).toHaveBeenCalledTimes(1))
+    vi.useRealTimers()
+  })
+
+  test('reports reconnected once reconnected when back online', async () => {
+    vi.useFakeTimers()
+    const reconnected = vi.fn()
+    testSetup.socket.on('reconnected', reconnected)
+    testSetup.socket.connect()
+    testSetup.socket.conn?.onopen?.(new Event('open'))
+    online = false
+    window.dispatchEvent(new Event('offline'))
+    testSetup.socket.conn?.onclose?.(closeEvent())
+
+    online = true
+    window.dispatchEvent(new Event('online'))
+    await vi.advanceTimersByTimeAsync(1010)
+    testSetup.socket.conn?.onopen?.(new Event('open'))
+
+    expect(reconnected).toHaveBeenCalledWith({ attempts: 1 })
+    vi.useRealTimers()
+  })
+
+  test('does not reconnect when back online after a manual disconnect', () => {
+    testSetup.socket.connect()
+    testSetup.socket.disconnect()
+    const connectSpy = vi.spyOn(testSetup.socket, 'connect')
+
+    window.dispatchEvent(new Event('online'))
+
+    expect(connectSpy).not.toHaveBeenCalled()
+  })
+
+  test('closes the connection when hidden and reconnects when visible', async () => {
+    vi.useFakeTimers()
+    testSetup.socket.connect()
+    const channel = testSetup.socket.channel('topic')
+    channel.state = CHANNEL_STATES.joined
+    const readyStateSpy = vi
+      .spyOn(testSetup.socket.conn!, 'readyState', 'get')
+      .mockReturnValue(1) // open
+    testSetup.socket.conn?.onopen?.(new Event('open'))
+    const closeSpy = vi
+      .spyOn(testSetup.socket.conn!, 'close')
+      .mockImplementation(() => readyStateSpy.mockReturnValue(3))
+
+    visibilityState = 'hidden'
+    document.dispatchEvent(new Event('visibilitychange'))
+    vi.advanceTimersByTime(1000)
+
+    expect(closeSpy).toHaveBeenCalledWith(1000, 'idle')
+    testSetup.socket.conn?.onclose?.(closeEvent())
+    expect(testSetup.socket.reconnectTimer!.timer).toBe(undefined)
+    expect(channel.state).toBe(CHANNEL_STATES.errored)
+
+    const connectSpy = vi.spyOn(testSetup.socket, 'connect')
+    visibilityState = 'visible'
+    document.dispatchEvent(new Event('visibilitychange'))
+
+    expect(connectSpy).toHaveBeenCalledTimes(1)
+    expect(testSetup.socket.isConnecting()).toBe(true)
+    vi.useRealTimers()
+  })
+
+  test('settles disconnected when hidden and the close event never comes', () => {
+    vi.useFakeTimers()
+    testSetup.socket.connect()
+    const channel = testSetup.socket.channel('topic')
+    channel.state = CHANNEL_STATES.joined
+    vi.spyOn(testSetup.socket.conn!, 'readyState', 'get').mockReturnValue(1)
+    testSetup.socket.conn?.onopen?.(new Event('open'))
+    vi.spyOn(testSetup.socket.conn!, 'close').mockImplementation(() => {})
+    const closeListener = vi.fn()
+    testSetup.socket.on('close', closeListener)
+
+    visibilityState = 'hidden'
+    document.dispatchEvent(new Event('visibilitychange'))
+    vi.advanceTimersByTime(1000)
+    expect(testSetup.socket.isDisconnecting()).toBe(true)
+    vi.advanceTimersByTime(100)
+
+    expect(testSetup.socket.isDisconnecting()).toBe(false)
+    expect(channel.state).toBe(CHANNEL_STATES.errored)
+    expect(closeListener).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 1000, reason: 'idle' })
+    )
+    expect(testSetup.socket.reconnectTimer!.timer).toBe(undefined)
+    vi.useRealTimers()
+  })
+})
+
 describe('socket close event', () => {
   beforeEach(() => testSetup.socket.connect())
 
@@ -127,7 +411,10 @@ describe('socket close event', () => {
     })
     testSetup.socket.conn?.onclose?.(closeEvent)
 
-    expect(spy).toHaveBeenCalledWith('phx_error')
+    expect(spy).toHaveBeenCalledWith(
+      'phx_error',
+      expect.any(RealtimeTransportError)
+    )
   })
 })
 
@@ -142,6 +429,9 @@ describe('_onConnError', () => {
 
     testSetup.socket.conn?.onerror?.(new Event('error'))
 
-    expect(spy).toHaveBeenCalledWith('phx_error')
+    expect(spy).toHaveBeenCalledWith(
+      'phx_error',
+      expect.any(RealtimeTransportError)
+    )
   })
 })
@@ -1,12 +1,16 @@
 import assert from 'assert'
 import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import { WebSocket as MockWebSocket } from 'mock-socket'
 import RealtimeClient, { HeartbeatStatus } from '../src/RealtimeClient'
+import MessagePackCodec from '../src/lib/msgpack'
+import WebSocketFactory from '../src/lib/websocket-factory'
 import {
   setupRealtimeTest,
   cleanupRealtimeTest,
   TestSetup,
   testSuites,
 } from './helpers/setup'
+import { LongPollServer } from './helpers/longpoll'
 
 let testSetup: TestSetup
 
@@ -300,6 +304,116 @@ describe('custom encoder and decoder', () => {
     })
   })
 
+  test('encodes broadcasts as binary when broadcastEncoding is binary', () => {
+    testSetup.socket = new RealtimeClient(
+      `wss://${testSetup.projectRef}/socket`,
+      {
+        broadcastEncoding: 'binary',
+        params: { apikey: '123456789' },
+      }
+    )
+    const broadcast = {
+      topic: 'realtime:topic',
+      event: 'broadcast',
+      payload: { type: 'broadcast', event: 'cursor', payload: { x: 1 } },
+      ref: '1',
+    }
+    const heartbeat = { topic: 'phoenix', event: 'heartbeat', payload: {} }
+
+    testSetup.socket.encode(broadcast, (encoded) => {
+      assert.ok(encoded instanceof ArrayBuffer)
+      testSetup.socket.decode(encoded, (decoded) => {
+        assert.deepStrictEqual(decoded, { ...broadcast, join_ref: '' })
+      })
+    })
+    testSetup.socket.encode(heartbeat, (encoded) => {
+      assert.deepStrictEqual(
+        encoded,
+        JSON.stringify([null, null, 'phoenix', 'heartbeat', {}])
+      )
+    })
+    assert.ok(testSetup.socket.endpointURL().endsWith('vsn=2.0.0'))
+  })
+
+  test('refuses binary broadcast payloads without binary encoding', () => {
+    const broadcast = {
+      topic: 'realtime:topic',
+      event: 'broadcast',
+      payload: {
+        type: 'broadcast',
+        event: 'chunk',
+        payload: new Uint8Array([1, 2, 3]),
+      },
+      ref: '1',
+    }
+
+    assert.throws(
+      () => testSetup.socket.encode(broadcast, () => {}),
+      /broadcastEncoding 'binary'/
+    )
+    assert.ok(testSetup.socket.endpointURL().endsWith('vsn=1.0.0'))
+  })
+
+  test('delivers binary broadcast payloads to channel callbacks', () => {
+    const channel = testSetup.socket.channel('topic')
+    const spy = vi.fn()
+    channel.on('broadcast', { event: 'chunk' }, spy)
+    const frame = new Uint8Array([
+      4, 14, 5, 0, 114, 101, 97, 108, 116, 105, 109, 101, 58, 116, 111, 112,
+      105, 99, 99, 104, 117, 110, 107, 9, 8, 7,
+    ]).buffer
+
+    testSetup.socket['_onConnMessage']({ data: frame })
+
+    expect(spy).toHaveBeenCalledTimes(1)
+    const received = spy.mock.calls[0][0]
+    expect(received.event).toBe('chunk')
+    expect(received.payload).toBeInstanceOf(Uint8Array)
+    expect(Array.from(received.payload)).toEqual([9, 8, 7])
+  })
+
+  test('uses the provided codec for encoding and decoding', () => {
+    const codec = new MessagePackCodec()
+    testSetup.socket = new RealtimeClient(
+      `wss://${testSetup.projectRef}/socket`,
+      {
+        transport: MockWebSocket,
+        codec,
+        params: { apikey: '123456789' },
+      }
+    )
+    const msg = { topic: 'topic', event: 'event', payload: {}, ref: '1' }
+
+    assert.strictEqual(testSetup.socket.codec, codec)
+    testSetup.socket.encode(msg, (encoded) => {
+      assert.ok(encoded instanceof ArrayBuffer)
+      testSetup.socket.decode(encoded, (decoded) => {
+        assert.deepStrictEqual(decoded, msg)
+      })
+    })
+  })
+
+  test('sets the socket binaryType from the codec', () => {
+    const codec = {
+      name: 'custom',
+      binaryType: 'blob' as const,
+      encode: vi.fn(),
+      decode: vi.fn(),
+    }
+    testSetup.socket = new RealtimeClient(
+      `wss://${testSetup.projectRef}/socket`,
+      {
+        transport: MockWebSocket,
+        codec,
+        params: { apikey: '123456789' },
+      }
+    )
+
+    testSetup.socket.connect()
+
+    assert.strictEqual(testSetup.socket.conn!.binaryType, 'blob')
+  })
+
   test('decodes JSON by default', () => {
     testSetup.socket = new RealtimeClient(
       `wss://${testSetup.projectRef}/socket`,
@@ -381,3 +495,112 @@ describe('custom encoder and decoder', () => {
     })
   })
 })
+
+describe('long-poll fallback', () => {
+  class BlockedWebSocket {
+    readyState = 0
+    onopen: Function | null = null
+    onclose: Function | null = null
+    onerror: Function | null = null
+    onmessage: Function | null = null
+    constructor() {
+      setTimeout(() => {
+        this.readyState = 3
+        this.onerror?.({ type: 'error' })
+        this.onclose?.({ type: 'close', code: 1006 })
+      }, 0)
+    }
+    send() {}
+    close() {}
+  }
+
+  let server: LongPollServer
+  let client: RealtimeClient
+
+  beforeEach(() => {
+    server = new LongPollServer()
+    server.autoReply()
+  })
+
+  afterEach(() => {
+    client?.disconnect()
+    vi.restoreAllMocks()
+  })
+
+  test('does not fall back by default', async () => {
+    client = new RealtimeClient(testSetup.url, {
+      transport: BlockedWebSocket as any,
+      reconnectAfterMs: () => 10,
+      fetch: server.fetch as any,
+      params: { apikey: '123456789' },
+    })
+    client.connect()
+
+    await new Promise((resolve) => setTimeout(resolve, 100))
+
+    expect(client.isLongPolling()).toBe(false)
+    expect(server.fetch).not.toHaveBeenCalled()
+  })
+
+  test('falls back after the configured number of failed attempts', async () => {
+    client = new RealtimeClient(testSetup.url, {
+      transport: BlockedWebSocket as any,
+      longPollFallbackAttempts: 2,
+      reconnectAfterMs: () => 10,
+      fetch: server.fetch as any,
+      params: { apikey: '123456789' },
+    })
+    client.connect()
+
+    await vi.waitFor(() => expect(client.isConnected()).toBe(true))
+
+    expect(client.isLongPolling()).toBe(true)
+    expect(server.requests[0].url).toContain('/socket/longpoll')
+    expect(server.requests[0].url).toContain('apikey=123456789')
+  })
+
+  test('falls back immediately when WebSocket is unavailable', async () => {
+    vi.spyOn(WebSocketFactory, 'createWebSocket').mockImplementation(() => {
+      throw new Error('WebSocket not available')
+    })
+    client = new RealtimeClient(testSetup.url, {
+      longPollFallbackAttempts: 3,
+      fetch: server.fetch as any,
+      params: { apikey: '123456789' },
+    })
+    client.connect()
+
+    expect(client.isLongPolling()).toBe(true)
+    await vi.waitFor(() => expect(client.isConnected()).toBe(true))
+  })
+
+  test('joins channels and receives broadcasts over long-polling', async () => {
+    client = new RealtimeClient(testSetup.url, {
+      transport: BlockedWebSocket as any,
+      longPollFallbackAttempts: 1,
+      reconnectAfterMs: () => 10,
+      fetch: server.fetch as any,
+      params: { apikey: '123456789' },
+    })
+    const channel = client.channel('room')
+    const received = vi.fn()
+    const status = vi.fn()
+    channel.on('broadcast', { event: 'ping' }, received).subscribe(status)
+
+    await vi.waitFor(() => expect(status).toHaveBeenCalledWith('SUBSCRIBED'))
+    expect(server.received.map((msg) => msg.event)).toContain('phx_join')
+
+    server.push({
+      topic: channel.topic,
+      event: 'broadcast',
+      payload: { type: 'broadcast', event: 'ping', payload: { n: 1 } },
+      ref: null,
+    })
+
+    await vi.waitFor(() => expect(received).toHaveBeenCalled())
+    expect(received.mock.calls[0][0]).toMatchObject({
+      event: 'ping',
+      payload: { n: 1 },
+    })
+  })
+})
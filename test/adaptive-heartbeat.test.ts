@@ -0,0 +1,75 @@
+import { describe, expect, test } from 'vitest'
+import AdaptiveHeartbeat from '../src/lib/adaptive-heartbeat'
+
+describe('AdaptiveHeartbeat', () => {
+  test('derives its bounds from the base interval', () => {
+    const heartbeat = new AdaptiveHeartbeat(25000)
+
+    expect(heartbeat.intervalMs).toBe(25000)
+    expect(heartbeat.minIntervalMs).toBe(5000)
+    expect(heartbeat.maxIntervalMs).toBe(50000)
+    expect(heartbeat.slowRttMs).toBe(2000)
+    expect(heartbeat.maxMissed).toBe(2)
+  })
+
+  test('halves the interval on slow replies down to the minimum', () => {
+    const heartbeat = new AdaptiveHeartbeat(20000, { slowRttMs: 1000 })
+
+    expect(heartbeat.reply(1000)).toBe(true)
+    expect(heartbeat.intervalMs).toBe(10000)
+    expect(heartbeat.reply(1500)).toBe(true)
+    expect(heartbeat.intervalMs).toBe(5000)
+    expect(heartbeat.reply(1500)).toBe(true)
+    expect(heartbeat.intervalMs).toBe(4000)
+    expect(heartbeat.reply(1500)).toBe(false)
+  })
+
+  test('lengthens the interval after consecutive fast replies up to the maximum', () => {
+    const heartbeat = new AdaptiveHeartbeat(20000, { maxIntervalMs: 40000 })
+
+    expect(heartbeat.reply(50)).toBe(false)
+    expect(heartbeat.reply(50)).toBe(false)
+    expect(heartbeat.reply(50)).toBe(true)
+    expect(heartbeat.intervalMs).toBe(30000)
+
+    heartbeat.reply(50)
+    heartbeat.reply(50)
+    heartbeat.reply(50)
+    expect(heartbeat.intervalMs).toBe(40000)
+  })
+
+  test('restarts the run of fast replies after a slow one', () => {
+    const heartbeat = new AdaptiveHeartbeat(20000)
+
+    heartbeat.reply(50)
+    heartbeat.reply(50)
+    heartbeat.reply(3000)
+    heartbeat.reply(50)
+    heartbeat.reply(50)
+
+    expect(heartbeat.intervalMs).toBe(10000)
+  })
+
+  test('tolerates up to maxMissed consecutive misses', () => {
+    const heartbeat = new AdaptiveHeartbeat(20000, { maxMissed: 2 })
+
+    expect(heartbeat.miss()).toBe(true)
+    expect(heartbeat.intervalMs).toBe(4000)
+    expect(heartbeat.miss()).toBe(true)
+    expect(heartbeat.miss()).toBe(false)
+
+    heartbeat.reset()
+    expect(heartbeat.intervalMs).toBe(20000)
+    expect(heartbeat.miss()).toBe(true)
+  })
+
+  test('clears missed replies on reply', () => {
+    const heartbeat = new AdaptiveHeartbeat(20000, { maxMissed: 1 })
+
+    heartbeat.miss()
+    heartbeat.reply(50)
+
+    expect(heartbeat.missed).toBe(0)
+    expect(heartbeat.miss()).toBe(true)
+  })
+})
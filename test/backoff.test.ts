@@ -0,0 +1,81 @@
+import { describe, expect, test } from 'vitest'
+import Backoff from '../src/lib/backoff'
+import Timer from '../src/lib/timer'
+
+const sequence = (...values: number[]) => {
+  let i = 0
+  return () => values[i++ % values.length]
+}
+
+describe('Backoff', () => {
+  test('grows exponentially up to max without jitter', () => {
+    const backoff = new Backoff({
+      base: 100,
+      factor: 3,
+      max: 2000,
+      jitter: 'none',
+    })
+
+    expect([1, 2, 3, 4, 5].map((tries) => backoff.delay(tries))).toEqual([
+      100, 300, 900, 2000, 2000,
+    ])
+  })
+
+  test('defaults to full jitter with a 1s base and 10s max', () => {
+    const backoff = new Backoff({}, () => 0.999999)
+
+    expect(backoff.delay(1)).toBe(999)
+    expect(backoff.delay(10)).toBe(9999)
+    expect(backoff.maxAttempts).toBe(Infinity)
+  })
+
+  test('applies full jitter between zero and the exponential delay', () => {
+    const backoff = new Backoff({ base: 100, jitter: 'full' }, sequence(0, 0.5))
+
+    expect(backoff.delay(3)).toBe(0)
+    expect(backoff.delay(3)).toBe(200)
+  })
+
+  test('applies equal jitter between half and the full exponential delay', () => {
+    const backoff = new Backoff(
+      { base: 100, jitter: 'equal' },
+      sequence(0, 0.5)
+    )
+
+    expect(backoff.delay(3)).toBe(200)
+    expect(backoff.delay(3)).toBe(300)
+  })
+
+  test('derives decorrelated jitter from the previous delay', () => {
+    const backoff = new Backoff(
+      { base: 100, max: 1000, jitter: 'decorrelated' },
+      () => 0.5
+    )
+
+    expect(backoff.delay(1)).toBe(200)
+    expect(backoff.delay(2)).toBe(350)
+    expect(backoff.delay(3)).toBe(575)
+    expect(backoff.delay(4)).toBe(912)
+    expect(backoff.delay(5)).toBe(1000)
+    expect(backoff.delay(1)).toBe(200)
+  })
+})
+
+describe('Timer maxTries', () => {
+  test('stops scheduling once maxTries attempts have been made', () => {
+    const timer = new Timer(
+      () => {},
+      () => 10,
+      2
+    )
+
+    expect(timer.scheduleTimeout()).toBe(10)
+    timer.tries = 2
+    expect(timer.scheduleTimeout()).toBe(null)
+    expect(timer.timer).toBe(undefined)
+
+    timer.reset()
+    expect(timer.scheduleTimeout()).toBe(10)
+    timer.reset()
+  })
+})
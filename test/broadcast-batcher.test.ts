@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import BroadcastBatcher from '../src/lib/broadcast-batcher'
+import { RealtimeError } from '../src/lib/errors'
+
+const ok = (n: number) =>
+  Array.from({ length: n }, () => ({
+    status: 'ok' as const,
+    response: null,
+    via: 'http' as const,
+    latencyMs: 1,
+    ref: null,
+  }))
+
+let sendBatch: ReturnType<typeof vi.fn>
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  sendBatch = vi.fn(async (messages: any[]) => ok(messages.length))
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('BroadcastBatcher', () => {
+  test('sends the messages enqueued within the window together', async () => {
+    const batcher = new BroadcastBatcher(sendBatch, { windowMs: 20 })
+
+    const first = batcher.enqueue({ topic: 'a', event: 'e' })
+    vi.advanceTimersByTime(10)
+    const second = batcher.enqueue({ topic: 'b', event: 'e' })
+    expect(sendBatch).not.toHaveBeenCalled()
+    vi.advanceTimersByTime(10)
+
+    expect(sendBatch).toHaveBeenCalledTimes(1)
+    expect(sendBatch).toHaveBeenCalledWith(
+      [
+        { topic: 'a', event: 'e' },
+        { topic: 'b', event: 'e' },
+      ],
+      undefined
+    )
+    expect(await first).toMatchObject({ status: 'ok', latencyMs: 20 })
+    expect(await second).toMatchObject({ status: 'ok', latencyMs: 10 })
+  })
+
+  test('sends right away once maxMessages are pending', async () => {
+    const batcher = new BroadcastBatcher(sendBatch, { maxMessages: 2 })
+
+    batcher.enqueue({ topic: 'a', event: 'e' })
+    batcher.enqueue({ topic: 'b', event: 'e' })
+    batcher.enqueue({ topic: 'c', event: 'e' })
+
+    expect(sendBatch).toHaveBeenCalledTimes(1)
+    expect(sendBatch.mock.calls[0][0]).toHaveLength(2)
+    vi.advanceTimersByTime(10)
+    expect(sendBatch).toHaveBeenCalledTimes(2)
+    expect(sendBatch.mock.calls[1][0]).toEqual([{ topic: 'c', event: 'e' }])
+  })
+
+  test('resolves each message with its own result', async () => {
+    sendBatch.mockResolvedValue([
+      { status: 'ok', response: null, via: 'http', latencyMs: 1, ref: null },
+      { status: 'error', response: null, via: 'http', latencyMs: 1, ref: null },
+    ])
+    const batcher = new BroadcastBatcher(sendBatch)
+
+    const results = Promise.all([
+      batcher.enqueue({ topic: 'a', event: 'e' }),
+      batcher.enqueue({ topic: 'b', event: 'e' }),
+    ])
+    await batcher.flush()
+
+    expect((await results).map((result) => result.status)).toEqual([
+      'ok',
+      'error',
+    ])
+  })
+
+  test('sends the batch with the longest timeout of its messages', async () => {
+    const batcher = new BroadcastBatcher(sendBatch)
+
+    batcher.enqueue({ topic: 'a', event: 'e' }, 1000)
+    batcher.enqueue({ topic: 'b', event: 'e' }, 3000)
+    batcher.enqueue({ topic: 'c', event: 'e' })
+    await batcher.flush()
+
+    expect(sendBatch.mock.calls[0][1]).toBe(3000)
+  })
+
+  test('fails every message of a batch that could not be sent', async () => {
+    sendBatch.mockRejectedValue(new Error('boom'))
+    const batcher = new BroadcastBatcher(sendBatch)
+
+    const results = Promise.all([
+      batcher.enqueue({ topic: 'a', event: 'e' }),
+      batcher.enqueue({ topic: 'b', event: 'e' }),
+    ])
+    await vi.advanceTimersByTimeAsync(10)
+
+    for (const result of await results) {
+      expect(result).toMatchObject({ status: 'error', via: 'http' })
+      expect(result.error).toBeInstanceOf(RealtimeError)
+      expect(result.error!.message).toBe('broadcast batch failed: boom')
+    }
+  })
+})
@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'vitest'
+import ConnectionStats from '../src/lib/connection-stats'
+
+describe('ConnectionStats', () => {
+  test('computes min, average, p95 and jitter over the samples', () => {
+    const stats = new ConnectionStats()
+    for (let rtt = 1; rtt <= 20; rtt++) {
+      stats.record(rtt * 10)
+    }
+
+    expect(stats.snapshot()).toEqual({
+      samples: 20,
+      missed: 0,
+      lastRttMs: 200,
+      minRttMs: 10,
+      avgRttMs: 105,
+      p95RttMs: 190,
+      jitterMs: 10,
+    })
+  })
+
+  test('keeps only the most recent outcomes', () => {
+    const stats = new ConnectionStats(3)
+
+    stats.record(40)
+    stats.record(60)
+    stats.miss()
+    stats.record(50)
+
+    expect(stats.snapshot()).toMatchObject({
+      samples: 2,
+      missed: 1,
+      minRttMs: 50,
+      avgRttMs: 55,
+      jitterMs: 10,
+    })
+
+    stats.miss()
+    stats.miss()
+    stats.miss()
+    expect(stats.snapshot()).toMatchObject({ samples: 0, missed: 3 })
+  })
+
+  test('reports zero jitter for a single sample', () => {
+    const stats = new ConnectionStats()
+    stats.record(25)
+
+    expect(stats.snapshot()).toMatchObject({
+      samples: 1,
+      p95RttMs: 25,
+      jitterMs: 0,
+    })
+  })
+
+  test('clears all outcomes on reset', () => {
+    const stats = new ConnectionStats()
+    stats.record(25)
+    stats.miss()
+
+    stats.reset()
+
+    expect(stats.snapshot()).toMatchObject({ samples: 0, missed: 0 })
+  })
+})
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import ConnectivityMonitor from '../src/lib/connectivity'
+
+let callbacks: {
+  onOnline: ReturnType<typeof vi.fn>
+  onOffline: ReturnType<typeof vi.fn>
+  onHiddenIdle: ReturnType<typeof vi.fn>
+  onVisible: ReturnType<typeof vi.fn>
+}
+let monitor: ConnectivityMonitor
+let visibilityState: DocumentVisibilityState
+
+const setVisibility = (state: DocumentVisibilityState) => {
+  visibilityState = state
+  document.dispatchEvent(new Event('visibilitychange'))
+}
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  visibilityState = 'visible'
+  vi.spyOn(document, 'visibilityState', 'get').mockImplementation(
+    () => visibilityState
+  )
+  callbacks = {
+    onOnline: vi.fn(),
+    onOffline: vi.fn(),
+    onHiddenIdle: vi.fn(),
+    onVisible: vi.fn(),
+  }
+  monitor = new ConnectivityMonitor(callbacks, { hiddenTimeoutMs: 1000 })
+})
+
+afterEach(() => {
+  monitor.stop()
+  vi.restoreAllMocks()
+  vi.useRealTimers()
+})
+
+describe('ConnectivityMonitor', () => {
+  test('reports online and offline events once started', () => {
+    window.dispatchEvent(new Event('offline'))
+    expect(callbacks.onOffline).not.toHaveBeenCalled()
+
+    monitor.start()
+    window.dispatchEvent(new Event('offline'))
+    window.dispatchEvent(new Event('online'))
+
+    expect(callbacks.onOffline).toHaveBeenCalledTimes(1)
+    expect(callbacks.onOnline).toHaveBeenCalledTimes(1)
+  })
+
+  test('stops listening when stopped', () => {
+    monitor.start()
+    monitor.stop()
+
+    window.dispatchEvent(new Event('online'))
+    setVisibility('hidden')
+    vi.advanceTimersByTime(1000)
+
+    expect(callbacks.onOnline).not.toHaveBeenCalled()
+    expect(callbacks.onHiddenIdle).not.toHaveBeenCalled()
+  })
+
+  test('reads the online status from navigator', () => {
+    const spy = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false)
+    expect(monitor.isOnline()).toBe(false)
+
+    spy.mockReturnValue(true)
+    expect(monitor.isOnline()).toBe(true)
+  })
+
+  test('reports idleness once hidden for hiddenTimeoutMs', () => {
+    monitor.start()
+
+    setVisibility('hidden')
+    vi.advanceTimersByTime(999)
+    expect(callbacks.onHiddenIdle).not.toHaveBeenCalled()
+
+    vi.advanceTimersByTime(1)
+    expect(callbacks.onHiddenIdle).toHaveBeenCalledTimes(1)
+  })
+
+  test('cancels idleness when visible again', () => {
+    monitor.start()
+
+    setVisibility('hidden')
+    vi.advanceTimersByTime(500)
+    setVisibility('visible')
+    vi.advanceTimersByTime(1000)
+
+    expect(callbacks.onHiddenIdle).not.toHaveBeenCalled()
+    expect(callbacks.onVisible).toHaveBeenCalledTimes(1)
+  })
+
+  test('counts idleness from start when already hidden', () => {
+    visibilityState = 'hidden'
+    monitor.start()
+
+    vi.advanceTimersByTime(1000)
+    expect(callbacks.onHiddenIdle).toHaveBeenCalledTimes(1)
+  })
+
+  test('ignores visibility without hiddenTimeoutMs', () => {
+    monitor = new ConnectivityMonitor(callbacks)
+    monitor.start()
+
+    setVisibility('hidden')
+    vi.advanceTimersByTime(60000)
+
+    expect(callbacks.onHiddenIdle).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,81 @@
+import assert from 'assert'
+import zlib from 'zlib'
+import { afterEach, describe, test, vi } from 'vitest'
+import { compress, deflate, inflate } from '../src/lib/deflate'
+
+const encoder = new TextEncoder()
+
+const sample = encoder.encode(
+  JSON.stringify(
+    Array.from({ length: 2000 }, (_, i) => ({
+      id: i,
+      name: `user-${i % 50}`,
+      position: { x: i * 1.5, y: -i },
+    }))
+  )
+)
+
+const random = new Uint8Array(40000).map((_, i) => (i * 7919 + 13) % 251)
+
+const same = (a: Uint8Array, b: Uint8Array) =>
+  Buffer.compare(Buffer.from(a), Buffer.from(b)) === 0
+
+describe('deflate', () => {
+  test.each([
+    { description: 'empty input', data: new Uint8Array(0) },
+    { description: 'short input', data: encoder.encode('abc') },
+    { description: 'repetitive input', data: encoder.encode('ab'.repeat(500)) },
+    { description: 'JSON document', data: sample },
+    { description: 'incompressible input', data: random },
+  ])('produces zlib streams for $description', ({ data }) => {
+    const compressed = deflate(data)
+
+    assert.ok(same(zlib.inflateSync(compressed), data))
+    assert.ok(same(inflate(compressed), data))
+  })
+
+  test('compresses repetitive data', () => {
+    assert.ok(deflate(sample).length < sample.length / 3)
+  })
+})
+
+describe('inflate', () => {
+  test.each([
+    { description: 'stored blocks', level: 0 },
+    { description: 'fast compression', level: 1 },
+    { description: 'best compression', level: 9 },
+  ])('decodes zlib output with $description', ({ level }) => {
+    assert.ok(same(inflate(zlib.deflateSync(sample, { level })), sample))
+    assert.ok(same(inflate(zlib.deflateSync(random, { level })), random))
+  })
+
+  test('rejects invalid data', () => {
+    assert.throws(
+      () => inflate(new Uint8Array([1, 2, 3, 4, 5, 6])),
+      /invalid zlib header/
+    )
+
+    const corrupted = deflate(sample)
+    corrupted[corrupted.length - 1] ^= 0xff
+    assert.throws(() => inflate(corrupted), /checksum mismatch/)
+
+    const truncated = deflate(sample).slice(0, 100)
+    assert.throws(() => inflate(truncated), /unexpected end of data/)
+  })
+})
+
+describe('compress', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('uses CompressionStream when available', async () => {
+    assert.ok(same(inflate(await compress(sample)), sample))
+  })
+
+  test('falls back to deflate without CompressionStream', async () => {
+    vi.stubGlobal('CompressionStream', undefined)
+
+    assert.ok(same(await compress(sample), deflate(sample)))
+  })
+})
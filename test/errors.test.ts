@@ -0,0 +1,73 @@
+import { describe, expect, test } from 'vitest'
+import {
+  RealtimeAuthError,
+  RealtimeBindingMismatchError,
+  RealtimeError,
+  RealtimeTimeoutError,
+  RealtimeTransportError,
+  errorFromReply,
+} from '../src/lib/errors'
+
+describe('RealtimeError', () => {
+  test('defaults to the channel_error code', () => {
+    const error = new RealtimeError('boom')
+
+    expect(error).toBeInstanceOf(Error)
+    expect(error).toMatchObject({
+      name: 'RealtimeError',
+      code: 'channel_error',
+      message: 'boom',
+    })
+  })
+
+  test.each([
+    [RealtimeTimeoutError, 'RealtimeTimeoutError', 'timeout'],
+    [RealtimeAuthError, 'RealtimeAuthError', 'unauthorized'],
+    [
+      RealtimeBindingMismatchError,
+      'RealtimeBindingMismatchError',
+      'binding_mismatch',
+    ],
+    [RealtimeTransportError, 'RealtimeTransportError', 'transport'],
+  ])('%o has its own name and code', (ErrorClass, name, code) => {
+    const cause = new Error('cause')
+    const error = new ErrorClass('boom', { reply: { a: 1 }, cause })
+
+    expect(error).toBeInstanceOf(RealtimeError)
+    expect(error).toMatchObject({ name, code, reply: { a: 1 }, cause })
+  })
+})
+
+describe('errorFromReply', () => {
+  test('joins the reply values into the message', () => {
+    const reply = { reason: 'bad payload', details: 'missing event' }
+    const error = errorFromReply(reply)
+
+    expect(error).not.toBeInstanceOf(RealtimeAuthError)
+    expect(error.message).toBe('bad payload, missing event')
+    expect(error.reply).toBe(reply)
+  })
+
+  test('describes object reasons by their message, or as JSON', () => {
+    expect(
+      errorFromReply({ reason: { message: 'Invalid JWT' } })
+    ).toMatchObject({ message: 'Invalid JWT', code: 'unauthorized' })
+    expect(
+      errorFromReply({ reason: { table: 'todos' }, retries: 3 }).message
+    ).toBe('{"table":"todos"}, 3')
+  })
+
+  test('tells authorization failures apart', () => {
+    expect(errorFromReply({ reason: 'Invalid JWT' })).toBeInstanceOf(
+      RealtimeAuthError
+    )
+    expect(
+      errorFromReply('Unauthorized: You do not have permissions to read')
+    ).toBeInstanceOf(RealtimeAuthError)
+  })
+
+  test('falls back to a generic message', () => {
+    expect(errorFromReply({}).message).toBe('error')
+    expect(errorFromReply(undefined).message).toBe('error')
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, expect, test, vi } from 'vitest'
+import EventStream from '../src/lib/event-stream'
+
+const drain = async <T>(stream: AsyncIterable<T>) => {
+  const values: T[] = []
+  for await (const value of stream) {
+    values.push(value)
+  }
+  return values
+}
+
+describe('EventStream', () => {
+  test('resolves pending reads with pushed values in order', async () => {
+    const stream = new EventStream<number>()
+    const first = stream.next()
+    const second = stream.next()
+
+    stream.push(1)
+    stream.push(2)
+
+    expect(await first).toEqual({ value: 1, done: false })
+    expect(await second).toEqual({ value: 2, done: false })
+  })
+
+  test('delivers buffered values before completing', async () => {
+    const onEnd = vi.fn()
+    const stream = new EventStream<number>({}, onEnd)
+    stream.push(1)
+    stream.push(2)
+    stream.end()
+    stream.push(3)
+
+    expect(onEnd).toHaveBeenCalledTimes(1)
+    expect(await drain(stream)).toEqual([1, 2])
+  })
+
+  test('completes pending reads when ended', async () => {
+    const stream = new EventStream<number>()
+    const pending = stream.next()
+
+    stream.end()
+
+    expect(await pending).toEqual({ value: undefined, done: true })
+  })
+
+  test('drops the oldest values by default', async () => {
+    const stream = new EventStream<number>({ bufferSize: 2 })
+    ;[1, 2, 3, 4].forEach((value) => stream.push(value))
+    stream.end()
+
+    expect(stream.overflow).toBe('drop-oldest')
+    expect(stream.dropped).toBe(2)
+    expect(await drain(stream)).toEqual([3, 4])
+  })
+
+  test('drops the newest values', async () => {
+    const stream = new EventStream<number>({
+      bufferSize: 2,
+      overflow: 'drop-newest',
+    })
+    ;[1, 2, 3, 4].forEach((value) => stream.push(value))
+    stream.end()
+
+    expect(stream.dropped).toBe(2)
+    expect(await drain(stream)).toEqual([1, 2])
+  })
+
+  test('fails after the buffered values when overflowing with error', async () => {
+    const onEnd = vi.fn()
+    const stream = new EventStream<number>(
+      { bufferSize: 2, overflow: 'error' },
+      onEnd
+    )
+    ;[1, 2, 3, 4].forEach((value) => stream.push(value))
+
+    expect(onEnd).toHaveBeenCalledTimes(1)
+    expect(await stream.next()).toEqual({ value: 1, done: false })
+    expect(await stream.next()).toEqual({ value: 2, done: false })
+    await expect(stream.next()).rejects.toThrow(
+      'stream buffer overflowed after 2 unread events'
+    )
+    expect(await stream.next()).toEqual({ value: undefined, done: true })
+  })
+
+  test('ends when the consuming loop exits early', async () => {
+    const onEnd = vi.fn()
+    const stream = new EventStream<number>({}, onEnd)
+    stream.push(1)
+    stream.push(2)
+
+    for await (const value of stream) {
+      expect(value).toBe(1)
+      break
+    }
+
+    expect(onEnd).toHaveBeenCalledTimes(1)
+    expect(await stream.next()).toEqual({ value: undefined, done: true })
+  })
+})
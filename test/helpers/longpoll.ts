@@ -0,0 +1,104 @@
+import { vi } from 'vitest'
+
+type Request = { method: string; url: string; body?: any; headers?: any }
+
+/**
+ * In-memory stand-in for the Realtime long-poll HTTP endpoint.
+ *
+ * Implements the Phoenix long-poll protocol on top of a `fetch` stub: a poll
+ * without a token opens a session (410), pending messages are delivered with
+ * a 200 and an idle poll is held briefly before answering 204.
+ */
+export class LongPollServer {
+  token = 'session-token'
+  outbox: string[] = []
+  received: any[] = []
+  requests: Request[] = []
+  forcedStatus: number | null = null
+  holdMs = 20
+  onMessage: (msg: any) => void = () => {}
+
+  private _waiters: (() => void)[] = []
+
+  fetch = vi.fn(async (url: string, init: any = {}) => {
+    this.requests.push({
+      method: init.method,
+      url,
+      body: init.body,
+      headers: init.headers,
+    })
+
+    if (init.method === 'POST') {
+      const msg =
+        typeof init.body === 'string' ? JSON.parse(init.body) : init.body
+      this.received.push(msg)
+      this.onMessage(msg)
+      return response(200, {})
+    }
+
+    if (this.forcedStatus !== null) {
+      return response(200, { status: this.forcedStatus, token: this.token })
+    }
+
+    if (!new URL(url).searchParams.get('token')) {
+      return response(200, { status: 410, token: this.token })
+    }
+
+    if (this.outbox.length === 0) {
+      await this._hold(init.signal)
+    }
+
+    if (this.outbox.length === 0) {
+      return response(200, { status: 204, token: this.token })
+    }
+
+    const messages = this.outbox.splice(0)
+    return response(200, { status: 200, token: this.token, messages })
+  })
+
+  /**
+   * Queues a message for delivery on the next poll.
+   */
+  push(msg: any) {
+    this.outbox.push(JSON.stringify(msg))
+    this._waiters.splice(0).forEach((resolve) => resolve())
+  }
+
+  /**
+   * Replies `ok` to every push from the client, which acknowledges joins.
+   */
+  autoReply() {
+    this.onMessage = (msg) => {
+      this.push({
+        topic: msg.topic,
+        event: 'phx_reply',
+        payload: { status: 'ok', response: {} },
+        ref: msg.ref,
+        join_ref: msg.join_ref,
+      })
+    }
+  }
+
+  private _hold(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(resolve, this.holdMs)
+      this._waiters.push(() => {
+        clearTimeout(timer)
+        resolve()
+      })
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer)
+        reject(Object.assign(new Error('aborted'), { name: 'AbortError' }))
+      })
+    })
+  }
+}
+
+function response(status: number, body: any) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+    body: { cancel: async () => {} },
+  }
+}
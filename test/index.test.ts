@@ -8,12 +8,30 @@ describe('index.ts exports', () => {
     expect(RealtimeJS.RealtimeChannel).toBeDefined()
     expect(RealtimeJS.RealtimePresence).toBeDefined()
     expect(RealtimeJS.WebSocketFactory).toBeDefined()
+    expect(RealtimeJS.MessagePackCodec).toBeDefined()
+    expect(RealtimeJS.LongPoll).toBeDefined()
+    expect(RealtimeJS.RealtimeBroadcaster).toBeDefined()
+    expect(RealtimeJS.RealtimeChannelPattern).toBeDefined()
+    expect(RealtimeJS.RealtimeChannelHandle).toBeDefined()
+    expect(RealtimeJS.RealtimeError).toBeDefined()
+    expect(RealtimeJS.RealtimeTimeoutError).toBeDefined()
+    expect(RealtimeJS.RealtimeAuthError).toBeDefined()
+    expect(RealtimeJS.RealtimeBindingMismatchError).toBeDefined()
+    expect(RealtimeJS.RealtimeTransportError).toBeDefined()
+    expect(RealtimeJS.MemoryOutboxStorage).toBeDefined()
+    expect(RealtimeJS.LocalStorageOutboxStorage).toBeDefined()
+    expect(RealtimeJS.IndexedDBOutboxStorage).toBeDefined()
+    expect(RealtimeJS.FileOutboxStorage).toBeDefined()
 
     // Test that the classes are constructors
     expect(typeof RealtimeJS.RealtimeClient).toBe('function')
     expect(typeof RealtimeJS.RealtimeChannel).toBe('function')
     expect(typeof RealtimeJS.RealtimePresence).toBe('function')
     expect(typeof RealtimeJS.WebSocketFactory).toBe('function')
+    expect(typeof RealtimeJS.MessagePackCodec).toBe('function')
+    expect(typeof RealtimeJS.LongPoll).toBe('function')
+    expect(typeof RealtimeJS.RealtimeBroadcaster).toBe('function')
+    expect(typeof RealtimeJS.RealtimeError).toBe('function')
   })
 
   test('should export all expected constants', () => {
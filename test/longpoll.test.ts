@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import LongPoll from '../src/lib/longpoll'
+import { LongPollServer } from './helpers/longpoll'
+
+const ENDPOINT =
+  'wss://example.com/realtime/v1/websocket?apikey=123456789&vsn=1.0.0'
+
+let server: LongPollServer
+let conn: LongPoll
+
+const open = async () => {
+  conn = new LongPoll(ENDPOINT, { fetch: server.fetch as any })
+  const onopen = vi.fn()
+  conn.onopen = onopen
+  await vi.waitFor(() => expect(onopen).toHaveBeenCalled())
+  return conn
+}
+
+beforeEach(() => {
+  server = new LongPollServer()
+})
+
+afterEach(() => {
+  conn?.close()
+})
+
+describe('pollEndpoint', () => {
+  test('rewrites WebSocket endpoints to long-poll endpoints', () => {
+    expect(LongPoll.pollEndpoint(ENDPOINT)).toBe(
+      'https://example.com/realtime/v1/longpoll?apikey=123456789&vsn=1.0.0'
+    )
+    expect(LongPoll.pollEndpoint('ws://localhost:4000/socket/websocket')).toBe(
+      'http://localhost:4000/socket/longpoll'
+    )
+  })
+})
+
+describe('LongPoll', () => {
+  test('opens once the server hands out a session token', async () => {
+    await open()
+
+    expect(conn.readyState).toBe(conn.OPEN)
+    expect(conn.token).toBe('session-token')
+    expect(server.requests[0].url).toBe(LongPoll.pollEndpoint(ENDPOINT))
+    await vi.waitFor(() =>
+      expect(server.requests[1].url).toContain('token=session-token')
+    )
+  })
+
+  test('delivers polled messages in order', async () => {
+    await open()
+    const received: string[] = []
+    conn.onmessage = (event) => received.push(JSON.parse(event.data).event)
+
+    server.push({ topic: 't', event: 'first', payload: {}, ref: null })
+    server.push({ topic: 't', event: 'second', payload: {}, ref: null })
+
+    await vi.waitFor(() => expect(received).toEqual(['first', 'second']))
+  })
+
+  test('dispatches to event listeners', async () => {
+    await open()
+    const listener = vi.fn()
+    conn.addEventListener('message', listener)
+
+    server.push({ topic: 't', event: 'e', payload: {}, ref: null })
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledTimes(1))
+
+    conn.removeEventListener('message', listener)
+    server.push({ topic: 't', event: 'e', payload: {}, ref: null })
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  test('sends messages with a POST carrying the session token', async () => {
+    await open()
+    const msg = { topic: 't', event: 'e', payload: {}, ref: '1' }
+
+    conn.send(JSON.stringify(msg))
+
+    await vi.waitFor(() => expect(server.received).toEqual([msg]))
+    const post = server.requests.find((r) => r.method === 'POST')!
+    expect(post.url).toContain('token=session-token')
+    expect(post.headers).toEqual({ 'Content-Type': 'application/json' })
+  })
+
+  test('closes with a policy violation when forbidden', async () => {
+    server.forcedStatus = 403
+    conn = new LongPoll(ENDPOINT, { fetch: server.fetch as any })
+    const onerror = vi.fn()
+    const onclose = vi.fn()
+    conn.onerror = onerror
+    conn.onclose = onclose
+
+    await vi.waitFor(() => expect(onclose).toHaveBeenCalled())
+
+    expect(onerror).toHaveBeenCalledTimes(1)
+    expect(onclose.mock.calls[0][0]).toMatchObject({
+      code: 1008,
+      reason: 'forbidden',
+      wasClean: false,
+    })
+    expect(conn.readyState).toBe(conn.CLOSED)
+  })
+
+  test('closes when the server errors', async () => {
+    await open()
+    const onclose = vi.fn()
+    conn.onclose = onclose
+
+    server.forcedStatus = 500
+
+    await vi.waitFor(() => expect(onclose).toHaveBeenCalled())
+    expect(onclose.mock.calls[0][0]).toMatchObject({ code: 1011 })
+  })
+
+  test('closes when a poll fails', async () => {
+    const fetch = vi.fn().mockRejectedValue(new Error('Network error'))
+    conn = new LongPoll(ENDPOINT, { fetch })
+    const onclose = vi.fn()
+    conn.onclose = onclose
+
+    await vi.waitFor(() => expect(onclose).toHaveBeenCalled())
+    expect(onclose.mock.calls[0][0]).toMatchObject({
+      code: 1011,
+      reason: 'poll failed: Network error',
+    })
+  })
+
+  test('closes when a poll times out', async () => {
+    server.holdMs = 1000
+    conn = new LongPoll(ENDPOINT, { fetch: server.fetch as any, timeout: 30 })
+    const onclose = vi.fn()
+    conn.onclose = onclose
+
+    await vi.waitFor(() => expect(onclose).toHaveBeenCalled())
+    expect(onclose.mock.calls[0][0]).toMatchObject({
+      code: 1005,
+      reason: 'timeout',
+    })
+  })
+
+  test('closes when a send is rejected', async () => {
+    await open()
+    const onclose = vi.fn()
+    conn.onclose = onclose
+    server.fetch.mockImplementationOnce(async () => ({
+      ok: false,
+      status: 500,
+      body: { cancel: async () => {} },
+    }))
+
+    conn.send('{}')
+
+    await vi.waitFor(() => expect(onclose).toHaveBeenCalled())
+    expect(onclose.mock.calls[0][0]).toMatchObject({
+      reason: 'send failed with 500',
+    })
+  })
+
+  test('close aborts pending polls and fires onclose once', async () => {
+    await open()
+    const onclose = vi.fn()
+    conn.onclose = onclose
+
+    conn.close()
+    conn.close()
+
+    expect(onclose).toHaveBeenCalledTimes(1)
+    expect(onclose.mock.calls[0][0]).toMatchObject({
+      code: 1000,
+      wasClean: true,
+    })
+    const requests = server.requests.length
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    expect(server.requests.length).toBe(requests)
+  })
+})
@@ -0,0 +1,97 @@
+import assert from 'assert'
+import { describe, test } from 'vitest'
+import MessagePackCodec, { decode, encode } from '../src/lib/msgpack'
+
+describe('encode/decode', () => {
+  test.each([
+    { description: 'nil', value: null },
+    { description: 'booleans', value: [true, false] },
+    { description: 'positive fixint', value: 127 },
+    { description: 'negative fixint', value: -32 },
+    { description: 'uint8', value: 255 },
+    { description: 'uint16', value: 65535 },
+    { description: 'uint32', value: 4294967295 },
+    { description: 'uint64', value: Number.MAX_SAFE_INTEGER },
+    { description: 'int8', value: -128 },
+    { description: 'int16', value: -32768 },
+    { description: 'int32', value: -2147483648 },
+    { description: 'int64', value: Number.MIN_SAFE_INTEGER },
+    { description: 'float64', value: 3.14159 },
+    { description: 'fixstr', value: 'héllo' },
+    { description: 'str8', value: 'a'.repeat(200) },
+    { description: 'str16', value: 'b'.repeat(70000 / 2) },
+    { description: 'array16', value: Array.from({ length: 20 }, (_, i) => i) },
+    {
+      description: 'map16',
+      value: Object.fromEntries(
+        Array.from({ length: 20 }, (_, i) => [`k${i}`, i])
+      ),
+    },
+    {
+      description: 'nested maps',
+      value: { a: { b: [1, { c: 'd' }] }, e: null },
+    },
+  ])('round-trips $description', ({ value }) => {
+    assert.deepStrictEqual(decode(encode(value)), value)
+  })
+
+  test('encodes fixed formats compactly', () => {
+    assert.deepStrictEqual(
+      Array.from(encode({ a: [1, -1, 'x', true, null] })),
+      [0x81, 0xa1, 0x61, 0x95, 0x01, 0xff, 0xa1, 0x78, 0xc3, 0xc0]
+    )
+  })
+
+  test('round-trips binary values as Uint8Array', () => {
+    const decoded = decode(encode({ data: new Uint8Array([1, 2, 3]) }))
+
+    assert.ok(decoded.data instanceof Uint8Array)
+    assert.deepStrictEqual(Array.from(decoded.data), [1, 2, 3])
+  })
+
+  test('skips undefined properties and uses toJSON', () => {
+    const date = new Date('2024-01-01T00:00:00Z')
+
+    assert.deepStrictEqual(decode(encode({ a: undefined, date })), {
+      date: '2024-01-01T00:00:00.000Z',
+    })
+  })
+
+  test('throws on unsupported types', () => {
+    assert.throws(() => encode(() => {}), /cannot encode value of type/)
+    assert.throws(() => decode(new Uint8Array([0xc7])), /unsupported type/)
+    assert.throws(
+      () => decode(new Uint8Array([0x01, 0x02])),
+      /unexpected trailing bytes/
+    )
+  })
+})
+
+describe('MessagePackCodec', () => {
+  const codec = new MessagePackCodec()
+
+  test('round-trips messages', () => {
+    const msg = {
+      topic: 'realtime:room',
+      event: 'broadcast',
+      payload: { type: 'broadcast', event: 'move', payload: { x: 1.5 } },
+      ref: '3',
+      join_ref: '1',
+    }
+
+    codec.encode(msg, (encoded) => {
+      assert.ok(encoded instanceof ArrayBuffer)
+      codec.decode(encoded, (decoded) => {
+        assert.deepStrictEqual(decoded, msg)
+      })
+    })
+  })
+
+  test('decodes JSON text frames', () => {
+    const msg = { topic: 'phoenix', event: 'phx_reply', payload: {}, ref: '1' }
+
+    codec.decode(JSON.stringify(msg), (decoded) => {
+      assert.deepStrictEqual(decoded, msg)
+    })
+  })
+})
@@ -0,0 +1,174 @@
+import * as fs from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import Outbox from '../src/lib/outbox'
+import {
+  FileOutboxStorage,
+  LocalStorageOutboxStorage,
+  MemoryOutboxStorage,
+} from '../src/lib/outbox-storage'
+
+const broadcast = (event: string, topic = 'realtime:room') => ({
+  topic,
+  type: 'broadcast' as const,
+  event,
+  payload: { event },
+})
+
+const track = (name: string, topic = 'realtime:room') => ({
+  topic,
+  type: 'presence' as const,
+  event: 'track',
+  payload: { name },
+})
+
+describe('Outbox', () => {
+  let storage: MemoryOutboxStorage
+
+  beforeEach(() => {
+    storage = new MemoryOutboxStorage()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  test('returns the entries of a topic in order', async () => {
+    const outbox = new Outbox(storage)
+    await outbox.add(broadcast('a'))
+    await outbox.add(broadcast('other', 'realtime:lobby'))
+    await outbox.add(broadcast('b'))
+
+    const entries = await outbox.entries('realtime:room')
+
+    expect(entries.map(({ event }) => event)).toEqual(['a', 'b'])
+  })
+
+  test('keeps only the latest track of a topic', async () => {
+    const outbox = new Outbox(storage)
+    await outbox.add(track('first'))
+    await outbox.add(broadcast('a'))
+    await outbox.add(track('second'))
+    await outbox.add(track('lobby', 'realtime:lobby'))
+
+    expect(await outbox.entries('realtime:room')).toMatchObject([
+      { event: 'a' },
+      { event: 'track', payload: { name: 'second' } },
+    ])
+
+    await outbox.untrack('realtime:room')
+
+    expect(await outbox.entries('realtime:room')).toMatchObject([
+      { event: 'a' },
+    ])
+    expect(await outbox.entries('realtime:lobby')).toHaveLength(1)
+  })
+
+  test('persists entries across instances', async () => {
+    await new Outbox(storage).add(broadcast('a'))
+
+    const entries = await new Outbox(storage).entries('realtime:room')
+
+    expect(entries).toMatchObject([{ event: 'a', payload: { event: 'a' } }])
+  })
+
+  test('removes the storage key once empty', async () => {
+    const outbox = new Outbox(storage, { key: 'custom' })
+    await outbox.add(broadcast('a'))
+    expect(await storage.get('custom')).not.toBeNull()
+
+    const [entry] = await outbox.entries('realtime:room')
+    await outbox.remove(entry)
+
+    expect(await storage.get('custom')).toBeNull()
+  })
+
+  test('discards expired entries', async () => {
+    vi.useFakeTimers()
+    const outbox = new Outbox(storage, { ttl: 1000 })
+    await outbox.add(broadcast('old'))
+    vi.advanceTimersByTime(600)
+    await outbox.add(broadcast('new'))
+    vi.advanceTimersByTime(600)
+
+    const entries = await outbox.entries('realtime:room')
+
+    expect(entries.map(({ event }) => event)).toEqual(['new'])
+  })
+
+  test('discards the oldest entries beyond maxEntries', async () => {
+    const log = vi.fn()
+    const outbox = new Outbox(storage, { maxEntries: 2 }, log)
+    await outbox.add(broadcast('a'))
+    await outbox.add(broadcast('b'))
+    await outbox.add(broadcast('c'))
+
+    const entries = await outbox.entries('realtime:room')
+
+    expect(entries.map(({ event }) => event)).toEqual(['b', 'c'])
+    expect(log).toHaveBeenCalledWith(
+      'discarded outbox entry due to overflow',
+      expect.objectContaining({ event: 'a' })
+    )
+  })
+
+  test('rejects an add the storage fails to persist', async () => {
+    const outbox = new Outbox(storage)
+    vi.spyOn(storage, 'set').mockRejectedValueOnce(new Error('quota'))
+
+    await expect(outbox.add(broadcast('a'))).rejects.toThrow('quota')
+    expect(await outbox.entries('realtime:room')).toEqual([])
+  })
+})
+
+describe('LocalStorageOutboxStorage', () => {
+  test('reads and writes the given storage', async () => {
+    const storage = new LocalStorageOutboxStorage(window.localStorage)
+
+    await storage.set('outbox-test', '[]')
+    expect(window.localStorage.getItem('outbox-test')).toBe('[]')
+    expect(await storage.get('outbox-test')).toBe('[]')
+
+    await storage.remove('outbox-test')
+    expect(await storage.get('outbox-test')).toBeNull()
+  })
+})
+
+describe('FileOutboxStorage', () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'realtime-outbox-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  test('keeps each key in its own file', async () => {
+    const storage = new FileOutboxStorage(join(directory, 'nested'), fs)
+
+    expect(await storage.get('realtime/outbox')).toBeNull()
+    await storage.set('realtime/outbox', '[1]')
+    expect(await storage.get('realtime/outbox')).toBe('[1]')
+    expect(
+      await new FileOutboxStorage(join(directory, 'nested'), fs).get(
+        'realtime/outbox'
+      )
+    ).toBe('[1]')
+
+    await storage.remove('realtime/outbox')
+    expect(await storage.get('realtime/outbox')).toBeNull()
+  })
+
+  test('rethrows read errors other than a missing file', async () => {
+    const error = Object.assign(new Error('denied'), { code: 'EACCES' })
+    const storage = new FileOutboxStorage(directory, {
+      ...fs,
+      readFile: vi.fn().mockRejectedValue(error),
+    })
+
+    await expect(storage.get('realtime-outbox')).rejects.toBe(error)
+  })
+})
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import RateLimiter from '../src/lib/rate-limiter'
+
+const track = (promise: Promise<boolean>) => {
+  const state: { granted?: boolean } = {}
+  promise.then((granted) => (state.granted = granted))
+  return state
+}
+
+beforeEach(() => {
+  vi.useFakeTimers()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('RateLimiter', () => {
+  test('grants a burst right away, then one message per interval', async () => {
+    const limiter = new RateLimiter({ rate: 10, burst: 2 })
+
+    expect(await limiter.acquire('a')).toBe(true)
+    expect(await limiter.acquire('a')).toBe(true)
+    const third = track(limiter.acquire('a'))
+    const fourth = track(limiter.acquire('a'))
+
+    await vi.advanceTimersByTimeAsync(99)
+    expect(third.granted).toBeUndefined()
+    await vi.advanceTimersByTimeAsync(1)
+    expect(third.granted).toBe(true)
+    expect(fourth.granted).toBeUndefined()
+    await vi.advanceTimersByTimeAsync(100)
+    expect(fourth.granted).toBe(true)
+  })
+
+  test('defaults the burst to the rate', () => {
+    expect(new RateLimiter({ rate: 5 }).burst).toBe(5)
+    expect(new RateLimiter({ rate: 0.5 }).burst).toBe(1)
+  })
+
+  test('rejects a rate or burst that is not a positive finite number', () => {
+    expect(() => new RateLimiter({ rate: 0 })).toThrow(RangeError)
+    expect(() => new RateLimiter({ rate: -1 })).toThrow(RangeError)
+    expect(() => new RateLimiter({ rate: NaN })).toThrow(RangeError)
+    expect(() => new RateLimiter({ rate: Infinity })).toThrow(RangeError)
+    expect(() => new RateLimiter({ rate: 10, burst: 0 })).toThrow(
+      'rate limit burst must be a positive finite number, got 0'
+    )
+  })
+
+  test('refills tokens over time up to the burst', async () => {
+    const limiter = new RateLimiter({ rate: 10, burst: 2, policy: 'drop' })
+    await limiter.acquire('a')
+    await limiter.acquire('a')
+
+    vi.advanceTimersByTime(1000)
+
+    expect(await limiter.acquire('a')).toBe(true)
+    expect(await limiter.acquire('a')).toBe(true)
+    expect(await limiter.acquire('a')).toBe(false)
+  })
+
+  test('drops messages over the limit', async () => {
+    const limiter = new RateLimiter({ rate: 1, policy: 'drop' })
+
+    expect(await limiter.acquire('a')).toBe(true)
+    expect(await limiter.acquire('a')).toBe(false)
+  })
+
+  test('coalesces waiting messages with the same key', async () => {
+    const limiter = new RateLimiter({ rate: 10, burst: 1, policy: 'coalesce' })
+    await limiter.acquire('cursor')
+
+    const first = track(limiter.acquire('cursor'))
+    const other = track(limiter.acquire('typing'))
+    const latest = track(limiter.acquire('cursor'))
+    await vi.advanceTimersByTimeAsync(0)
+    expect(first.granted).toBe(false)
+
+    await vi.advanceTimersByTimeAsync(100)
+    expect(latest.granted).toBe(true)
+    expect(other.granted).toBeUndefined()
+    await vi.advanceTimersByTimeAsync(100)
+    expect(other.granted).toBe(true)
+  })
+
+  test('clear refuses waiting messages', async () => {
+    const limiter = new RateLimiter({ rate: 1 })
+    await limiter.acquire('a')
+    const waiting = track(limiter.acquire('a'))
+
+    limiter.clear()
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(waiting.granted).toBe(false)
+  })
+})
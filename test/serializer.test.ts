@@ -0,0 +1,254 @@
+import assert from 'assert'
+import { describe, test } from 'vitest'
+import Serializer from '../src/lib/serializer'
+import { deflate } from '../src/lib/deflate'
+
+const serializer = new Serializer({ broadcastEncoding: 'binary' })
+
+const encode = (msg: any): any => {
+  let encoded: any
+  serializer.encode(msg, (result: any) => (encoded = result))
+  return encoded
+}
+
+const decode = (raw: any): any => {
+  let decoded: any
+  serializer.decode(raw, (result: any) => (decoded = result))
+  return decoded
+}
+
+describe('encode', () => {
+  test('encodes broadcasts as binary user broadcast push frames', () => {
+    const encoded = encode({
+      join_ref: '1',
+      ref: '2',
+      topic: 'realtime:t',
+      event: 'broadcast',
+      payload: { type: 'broadcast', event: 'e', payload: { a: 1 } },
+    })
+
+    assert.ok(encoded instanceof ArrayBuffer)
+    assert.deepStrictEqual(
+      Array.from(new Uint8Array(encoded)),
+      [
+        3, 1, 1, 10, 1, 1, 49, 50, 114, 101, 97, 108, 116, 105, 109, 101, 58,
+        116, 101, 123, 34, 97, 34, 58, 49, 125,
+      ]
+    )
+  })
+
+  test('encodes binary broadcast payloads as raw bytes', () => {
+    const encoded = encode({
+      ref: '2',
+      topic: 't',
+      event: 'broadcast',
+      payload: {
+        type: 'broadcast',
+        event: 'e',
+        payload: new Uint8Array([0, 255, 7]),
+      },
+    })
+
+    assert.deepStrictEqual(
+      Array.from(new Uint8Array(encoded)),
+      [3, 0, 1, 1, 1, 0, 50, 116, 101, 0, 255, 7]
+    )
+  })
+
+  test('throws when a binary payload cannot be framed', () => {
+    const msg = {
+      topic: 't'.repeat(256),
+      event: 'broadcast',
+      payload: {
+        type: 'broadcast',
+        event: 'e',
+        payload: new Uint8Array([1]),
+      },
+      ref: '1',
+    }
+
+    assert.throws(() => encode(msg), /at most 255 bytes/)
+  })
+
+  test('encodes JSON broadcast payloads as JSON in json mode', () => {
+    const msg = {
+      topic: 'realtime:t',
+      event: 'broadcast',
+      payload: { type: 'broadcast', event: 'e', payload: { a: 1 } },
+      ref: '1',
+    }
+
+    new Serializer().encode(msg, (encoded: any) => {
+      assert.strictEqual(encoded, JSON.stringify(msg))
+    })
+  })
+
+  test('throws on binary broadcast payloads in json mode', () => {
+    const msg = {
+      topic: 'realtime:t',
+      event: 'broadcast',
+      payload: { type: 'broadcast', event: 'e', payload: new Uint8Array([1]) },
+      ref: '1',
+    }
+
+    assert.throws(
+      () => new Serializer().encode(msg, () => {}),
+      /broadcastEncoding 'binary'/
+    )
+  })
+
+  test('encodes non-broadcast messages as 2.0.0 JSON arrays', () => {
+    const msg = {
+      join_ref: '1',
+      topic: 'phoenix',
+      event: 'heartbeat',
+      payload: {},
+      ref: '2',
+    }
+
+    assert.strictEqual(
+      encode(msg),
+      JSON.stringify(['1', '2', 'phoenix', 'heartbeat', {}])
+    )
+  })
+
+  test('falls back to JSON when a header segment exceeds 255 bytes', () => {
+    const msg = {
+      topic: 'realtime:t',
+      event: 'broadcast',
+      payload: { type: 'broadcast', event: 'e'.repeat(256), payload: {} },
+      ref: '1',
+    }
+
+    assert.strictEqual(
+      encode(msg),
+      JSON.stringify([null, '1', msg.topic, 'broadcast', msg.payload])
+    )
+  })
+})
+
+describe('decode', () => {
+  test('decodes 2.0.0 JSON arrays', () => {
+    assert.deepStrictEqual(
+      decode(JSON.stringify(['1', '2', 'realtime:t', 'phx_reply', {}])),
+      {
+        join_ref: '1',
+        ref: '2',
+        topic: 'realtime:t',
+        event: 'phx_reply',
+        payload: {},
+      }
+    )
+  })
+
+  test('round-trips encoded broadcasts', () => {
+    const msg = {
+      join_ref: '3',
+      ref: '14',
+      topic: 'realtime:room:1',
+      event: 'broadcast',
+      payload: {
+        type: 'broadcast',
+        event: 'cursor',
+        payload: { x: 10, y: 20, label: 'héllo' },
+      },
+    }
+
+    assert.deepStrictEqual(decode(encode(msg)), msg)
+  })
+
+  test('round-trips broadcasts without refs', () => {
+    const msg = {
+      topic: 'realtime:room:1',
+      event: 'broadcast',
+      payload: { type: 'broadcast', event: 'state', payload: [1, 2, 3] },
+      ref: '',
+    }
+
+    assert.deepStrictEqual(decode(encode(msg)), { ...msg, join_ref: '' })
+  })
+
+  test('round-trips binary broadcast payloads', () => {
+    const bytes = new Uint8Array([10, 20, 30, 40])
+    const msg = {
+      join_ref: '1',
+      ref: '2',
+      topic: 'realtime:audio',
+      event: 'broadcast',
+      payload: { type: 'broadcast', event: 'chunk', payload: bytes.buffer },
+    }
+
+    const decoded = decode(encode(msg))
+
+    assert.ok(decoded.payload.payload instanceof Uint8Array)
+    assert.deepStrictEqual(
+      Array.from(decoded.payload.payload),
+      [10, 20, 30, 40]
+    )
+  })
+
+  test('decodes server user broadcast frames with binary payloads', () => {
+    const buffer = new Uint8Array([4, 1, 1, 0, 116, 101, 1, 2, 3]).buffer
+
+    const decoded = decode(buffer)
+
+    assert.deepStrictEqual(decoded.topic, 't')
+    assert.deepStrictEqual(decoded.event, 'broadcast')
+    assert.deepStrictEqual(decoded.payload.type, 'broadcast')
+    assert.deepStrictEqual(decoded.payload.event, 'e')
+    assert.deepStrictEqual(Array.from(decoded.payload.payload), [1, 2, 3])
+  })
+
+  test('decodes server user broadcast frames with JSON payloads', () => {
+    const buffer = new Uint8Array([
+      4, 1, 1, 1, 116, 101, 123, 34, 97, 34, 58, 49, 125,
+    ]).buffer
+
+    assert.deepStrictEqual(decode(buffer), {
+      ref: null,
+      topic: 't',
+      event: 'broadcast',
+      payload: { type: 'broadcast', event: 'e', payload: { a: 1 } },
+    })
+  })
+
+  test('round-trips compressed broadcast payloads', () => {
+    const payload = { items: Array.from({ length: 100 }, (_, i) => i) }
+    const msg = {
+      join_ref: '1',
+      ref: '2',
+      topic: 'realtime:doc',
+      event: 'broadcast',
+      payload: {
+        type: 'broadcast',
+        event: 'snapshot',
+        payload: deflate(new TextEncoder().encode(JSON.stringify(payload))),
+        compression: 'deflate',
+      },
+    }
+
+    const encoded = encode(msg)
+
+    assert.strictEqual(new Uint8Array(encoded)[5], 2)
+    assert.deepStrictEqual(decode(encoded).payload, {
+      type: 'broadcast',
+      event: 'snapshot',
+      payload,
+    })
+  })
+
+  test('decodes server broadcast frames', () => {
+    const buffer = new Uint8Array([
+      2, 20, 6, 114, 101, 97, 108, 116, 105, 109, 101, 58, 112, 117, 98, 108,
+      105, 99, 58, 116, 101, 115, 116, 73, 78, 83, 69, 82, 84, 123, 34, 102,
+      111, 111, 34, 58, 34, 98, 97, 114, 34, 125,
+    ]).buffer
+
+    assert.deepStrictEqual(decode(buffer), {
+      ref: null,
+      topic: 'realtime:public:test',
+      event: 'INSERT',
+      payload: { foo: 'bar' },
+    })
+  })
+})